@@ -0,0 +1,133 @@
+const crypto = require("crypto");
+const { promisify } = require("util");
+const jwt = require("jsonwebtoken");
+const { createStore } = require("./store");
+
+const scrypt = promisify(crypto.scrypt);
+
+// How long a session lasts before the user has to sign in again
+const TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || "12h";
+
+let secret = process.env.JWT_SECRET;
+if (!secret) {
+  console.warn("JWT_SECRET is not set, sessions won't survive a restart");
+  secret = crypto.randomBytes(32).toString("hex");
+}
+
+// Accounts by username, with scrypt password hashes
+const users = createStore("users");
+
+class AuthError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+async function hashPassword(password, salt) {
+  return (await scrypt(password, salt, 64)).toString("hex");
+}
+
+function issueToken(user) {
+  const token = jwt.sign({ username: user.username }, secret, {
+    subject: user.id,
+    expiresIn: TOKEN_EXPIRES_IN,
+  });
+  const { exp } = jwt.decode(token);
+  return {
+    token,
+    expiresAt: new Date(exp * 1000).toISOString(),
+    user: { id: user.id, username: user.username },
+  };
+}
+
+function checkCredentials({ username, password }) {
+  if (typeof username !== "string" || !/^[\w.-]{3,32}$/.test(username)) {
+    throw new AuthError(
+      400,
+      "Usernames are 3 to 32 letters, digits, dots, dashes or underscores"
+    );
+  }
+  if (typeof password !== "string" || password.length < 8) {
+    throw new AuthError(400, "Passwords need at least 8 characters");
+  }
+}
+
+async function register({ username, password }) {
+  checkCredentials({ username, password });
+  if (users.get(username)) {
+    throw new AuthError(409, "That username is taken");
+  }
+
+  const salt = crypto.randomBytes(16).toString("hex");
+  const user = {
+    id: crypto.randomUUID(),
+    username,
+    salt,
+    passwordHash: await hashPassword(password, salt),
+    createdAt: new Date().toISOString(),
+  };
+  users.set(username, user);
+  return issueToken(user);
+}
+
+async function login({ username, password }) {
+  const user = typeof username === "string" && users.get(username);
+  const hash = Buffer.from(
+    await hashPassword(String(password ?? ""), user ? user.salt : "no-user"),
+    "hex"
+  );
+  // Hash even for unknown users, so timing doesn't tell which usernames exist
+  if (
+    !user ||
+    !crypto.timingSafeEqual(hash, Buffer.from(user.passwordHash, "hex"))
+  ) {
+    throw new AuthError(401, "Wrong username or password");
+  }
+  return issueToken(user);
+}
+
+// Middleware for routes that need a signed-in user, read from a bearer token
+function requireAuth(req, res, next) {
+  const [scheme, token] = (req.headers.authorization || "").split(" ");
+  if (scheme !== "Bearer" || !token) {
+    return res.status(401).json({ error: "Sign in to continue" });
+  }
+
+  try {
+    const { sub, username } = jwt.verify(token, secret);
+    req.user = { id: sub, username };
+    next();
+  } catch (error) {
+    res.status(401).json({
+      error:
+        error.name === "TokenExpiredError"
+          ? "Session expired, sign in again"
+          : "Invalid session",
+    });
+  }
+}
+
+// Every object a user uploads lives under their own prefix
+function userPrefix(user) {
+  return `users/${user.id}/`;
+}
+
+// Keys are also paths on the local disk driver, so ".." segments could climb
+// out of the user's prefix
+function ownsKey(user, key) {
+  return (
+    typeof key === "string" &&
+    key.startsWith(userPrefix(user)) &&
+    !key.split("/").includes("..")
+  );
+}
+
+module.exports = {
+  AuthError,
+  register,
+  login,
+  requireAuth,
+  userPrefix,
+  ownsKey,
+};
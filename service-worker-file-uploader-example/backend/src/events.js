@@ -0,0 +1,85 @@
+// Per-user upload lifecycle events, streamed to the browser over Server-Sent
+// Events. Recent events are kept so a reconnecting client, or a page that
+// was reloaded, catches up on what it missed.
+
+// presigned → confirmed → processing → ready, or rejected at any point
+const UPLOAD_EVENTS = [
+  "presigned",
+  "confirmed",
+  "processing",
+  "ready",
+  "rejected",
+];
+
+const HISTORY_SIZE = 100; // events kept per user for replay
+const HEARTBEAT_INTERVAL = 25 * 1000; // 25s, under common proxy idle timeouts
+
+let lastEventId = 0;
+const history = new Map(); // userId → recent events, oldest first
+const subscribers = new Map(); // userId → Set of send functions
+
+function publish(userId, type, upload, details = {}) {
+  if (!UPLOAD_EVENTS.includes(type)) {
+    throw new Error(`Unknown upload event: ${type}`);
+  }
+
+  const event = {
+    id: ++lastEventId,
+    type,
+    key: upload.key,
+    filename: upload.filename,
+    at: new Date().toISOString(),
+    ...details,
+  };
+
+  const events = history.get(userId) || [];
+  events.push(event);
+  if (events.length > HISTORY_SIZE) events.shift();
+  history.set(userId, events);
+
+  subscribers.get(userId)?.forEach((send) => send(event));
+  return event;
+}
+
+function formatEvent(event) {
+  return `id: ${event.id}\nevent: upload\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// GET handler for the stream. Everything after the client's Last-Event-ID is
+// replayed first; a client without one gets the whole recent history.
+function streamEvents(req, res) {
+  const userId = req.user.id;
+  const since = Number(req.get("Last-Event-ID")) || 0;
+
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+  // Tell EventSource-style clients how long to wait before reconnecting
+  res.write("retry: 3000\n\n");
+
+  (history.get(userId) || [])
+    .filter((event) => event.id > since)
+    .forEach((event) => res.write(formatEvent(event)));
+
+  const send = (event) => res.write(formatEvent(event));
+  if (!subscribers.has(userId)) subscribers.set(userId, new Set());
+  subscribers.get(userId).add(send);
+
+  // Comments keep idle connections from being closed by proxies
+  const heartbeat = setInterval(
+    () => res.write(": heartbeat\n\n"),
+    HEARTBEAT_INTERVAL
+  );
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    const sends = subscribers.get(userId);
+    sends?.delete(send);
+    if (sends?.size === 0) subscribers.delete(userId);
+  });
+}
+
+module.exports = { publish, streamEvents };
@@ -0,0 +1,18 @@
+const { createJobQueue } = require("./queue");
+const { magicBytesProcessor } = require("./magic-bytes");
+const { thumbnailProcessor } = require("./thumbnail");
+
+// The queue confirmed uploads go through. Every processor that applies to an
+// upload gets a job; the magic-byte check applies to all of them.
+function createProcessingQueue({ storage, getUpload, onSettled }) {
+  return createJobQueue({
+    storage,
+    getUpload,
+    processors: [magicBytesProcessor, thumbnailProcessor],
+    concurrency: Number(process.env.JOB_CONCURRENCY) || 2,
+    maxAttempts: Number(process.env.JOB_MAX_ATTEMPTS) || 3,
+    onSettled,
+  });
+}
+
+module.exports = { createProcessingQueue };
@@ -0,0 +1,21 @@
+const { JobRejection } = require("./queue");
+const { checkMagicBytes, KNOWN_TYPES } = require("../magic-bytes");
+
+// Checks the stored content against its type once more after confirm, which
+// catches uploads confirmed before that check existed. The same check on
+// confirm keeps most mismatches from getting this far.
+const magicBytesProcessor = {
+  name: "magic-bytes",
+  appliesTo: () => true,
+  async run({ upload, storage }) {
+    const reason = await checkMagicBytes(storage, upload);
+    if (reason) {
+      throw new JobRejection(
+        `Uploaded object doesn't match its type: ${reason}`
+      );
+    }
+    return { checked: KNOWN_TYPES.includes(upload.contentType) };
+  },
+};
+
+module.exports = { magicBytesProcessor };
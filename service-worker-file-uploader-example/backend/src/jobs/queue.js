@@ -0,0 +1,174 @@
+const { createStore } = require("../store");
+
+// Thrown by a processor when the upload itself is unacceptable, as opposed to
+// the processor failing. The job fails straight away and the upload is
+// rejected.
+class JobRejection extends Error {}
+
+// Thrown by a processor when trying again can't help, e.g. its input can't be
+// decoded. The job fails straight away but the upload stands.
+class JobFailure extends Error {}
+
+const RETRY_BASE_DELAY = 5 * 1000; // 5s, doubled after every failed attempt
+
+// An in-process queue of post-upload jobs, one per processor per upload. Job
+// state is persisted, so jobs that were queued or cut off by a restart run
+// again when the server comes back.
+function createJobQueue({
+  storage,
+  getUpload,
+  processors,
+  concurrency,
+  maxAttempts,
+  onSettled,
+}) {
+  const jobs = createStore("jobs");
+  let running = 0;
+  let wakeTimer;
+
+  // A job that was running when the process stopped never finished
+  jobs
+    .values()
+    .filter((job) => job.status === "running")
+    .forEach((job) => jobs.update(job.id, { status: "queued" }));
+
+  function jobsFor(key) {
+    return jobs
+      .values()
+      .filter((job) => job.key === key)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  // Queue every processor that applies to the upload. Returns the jobs; an
+  // upload no processor applies to settles right away.
+  function enqueue(upload) {
+    const now = new Date().toISOString();
+    const queued = processors
+      .filter((processor) => processor.appliesTo(upload))
+      .map((processor) =>
+        jobs.set(`${processor.name}:${upload.key}`, {
+          id: `${processor.name}:${upload.key}`,
+          key: upload.key,
+          userId: upload.userId,
+          processor: processor.name,
+          status: "queued",
+          attempts: 0,
+          runAfter: now,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+
+    if (queued.length === 0) settle(upload.key);
+    else pump();
+    return queued;
+  }
+
+  // Drop an upload's jobs, e.g. once the upload is deleted
+  function remove(key) {
+    jobsFor(key).forEach((job) => jobs.delete(job.id));
+  }
+
+  function update(id, changes) {
+    return jobs.update(id, { ...changes, updatedAt: new Date().toISOString() });
+  }
+
+  // Start due jobs up to the concurrency limit, oldest first, and wake up
+  // again when the next retry is due
+  function pump() {
+    clearTimeout(wakeTimer);
+    const now = Date.now();
+    const queued = jobs
+      .values()
+      .filter((job) => job.status === "queued")
+      .sort((a, b) => a.runAfter.localeCompare(b.runAfter));
+
+    for (const job of queued) {
+      if (running >= concurrency) return;
+      const delay = Date.parse(job.runAfter) - now;
+      if (delay > 0) {
+        wakeTimer = setTimeout(pump, delay);
+        return;
+      }
+      run(job).catch((error) => {
+        // The job's own bookkeeping failed, not its processor
+        console.error(`Error running ${job.id}:${error}`);
+        if (jobs.get(job.id)) {
+          update(job.id, { status: "failed", error: error.message });
+          settle(job.key);
+        }
+        pump();
+      });
+    }
+  }
+
+  async function run(job) {
+    const processor = processors.find((p) => p.name === job.processor);
+    job = update(job.id, { status: "running", attempts: job.attempts + 1 });
+    running++;
+
+    let changes;
+    try {
+      if (!processor) {
+        throw new Error(`Unknown processor ${job.processor}`);
+      }
+      const result = await processor.run({
+        upload: getUpload(job.key),
+        storage,
+      });
+      changes = { status: "succeeded", result, error: undefined };
+    } catch (error) {
+      const rejected = error instanceof JobRejection;
+      const permanent = rejected || error instanceof JobFailure;
+      if (!permanent && job.attempts < maxAttempts) {
+        console.error(`Error running ${job.id}, retrying:${error}`);
+        changes = {
+          status: "queued",
+          error: error.message,
+          runAfter: new Date(
+            Date.now() + RETRY_BASE_DELAY * 2 ** (job.attempts - 1)
+          ).toISOString(),
+        };
+      } else {
+        if (!rejected) console.error(`Error running ${job.id}:${error}`);
+        changes = { status: "failed", error: error.message, rejected };
+      }
+    }
+    running--;
+
+    // The job is gone if its upload was deleted while it ran
+    if (jobs.get(job.id)) {
+      update(job.id, changes);
+      // There's no point processing content that's being rejected
+      if (changes.rejected) {
+        jobsFor(job.key)
+          .filter((other) => other.status === "queued")
+          .forEach((other) =>
+            update(other.id, {
+              status: "cancelled",
+              error: "Skipped, the upload was rejected",
+            })
+          );
+      }
+      if (changes.status !== "queued") settle(job.key);
+    }
+    pump();
+  }
+
+  // Report an upload once none of its jobs are left to run
+  function settle(key) {
+    const uploadJobs = jobsFor(key);
+    const done = uploadJobs.every(
+      (job) => job.status !== "queued" && job.status !== "running"
+    );
+    if (done) {
+      Promise.resolve(onSettled(key, uploadJobs)).catch((error) =>
+        console.error(`Error settling jobs for ${key}:${error}`)
+      );
+    }
+  }
+
+  return { enqueue, remove, jobsFor, start: pump };
+}
+
+module.exports = { createJobQueue, JobRejection, JobFailure };
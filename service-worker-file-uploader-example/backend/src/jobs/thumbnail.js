@@ -0,0 +1,43 @@
+const sharp = require("sharp");
+const { JobFailure } = require("./queue");
+
+// Generates a small WebP preview of an uploaded image and stores it next to
+// the original, as `<key>.thumbnail.webp`
+
+const THUMBNAIL_SIZE = Number(process.env.THUMBNAIL_SIZE) || 320; // px
+const THUMBNAIL_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "image/avif",
+];
+
+const thumbnailProcessor = {
+  name: "thumbnail",
+  appliesTo: (upload) => THUMBNAIL_TYPES.includes(upload.contentType),
+  async run({ upload, storage }) {
+    const original = await storage.getObject(upload.key);
+    let thumbnail;
+    try {
+      thumbnail = await sharp(original)
+        .rotate() // Apply the EXIF orientation before it's dropped
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+          fit: "inside",
+          withoutEnlargement: true,
+        })
+        .webp({ quality: 75 })
+        .toBuffer({ resolveWithObject: true });
+    } catch (error) {
+      // A corrupt or truncated image fails the same way every time
+      throw new JobFailure(`Can't read the image: ${error.message}`);
+    }
+    const { data, info } = thumbnail;
+
+    const key = `${upload.key}.thumbnail.webp`;
+    await storage.putObject({ key, body: data, contentType: "image/webp" });
+    return { key, width: info.width, height: info.height, size: info.size };
+  },
+};
+
+module.exports = { thumbnailProcessor };
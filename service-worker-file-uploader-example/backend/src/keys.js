@@ -0,0 +1,115 @@
+const crypto = require("crypto");
+
+// Object keys are built from client input, so every part is cleaned up first.
+// A key is the user's prefix, the folders the file came from, then a name
+// picked by the configured strategy. The user's prefix is what ownership
+// checks rely on, so every strategy is user-scoped.
+
+const MAX_FILENAME_LENGTH = 255; // what most filesystems allow
+const MAX_SEGMENT_LENGTH = 100; // per folder or name in a key
+const MAX_FOLDER_DEPTH = 16; // folders of a relative path kept in the key
+
+// Control characters, and invisible ones that can disguise a name: zero-width
+// characters, bidi overrides ("photo\u202egpj.exe" shows as "photoexe.jpg")
+// and byte order marks
+const UNSAFE_CHARACTERS =
+  /[\x00-\x1f\x7f-\x9f\u200b-\u200f\u202a-\u202e\u2060-\u2064\u2066-\u2069\ufeff]/g;
+
+// The filename as it's shown and downloaded: NFC-normalized, without unsafe
+// characters or any path, and not too long. Empty when nothing's left.
+function cleanFilename(filename) {
+  const name = filename
+    .normalize("NFC")
+    .replace(UNSAFE_CHARACTERS, "")
+    .split(/[/\\]/)
+    .pop()
+    .trim();
+  return name === "." || name === ".."
+    ? ""
+    : truncate(name, MAX_FILENAME_LENGTH);
+}
+
+// Shorten a name, keeping its extension
+function truncate(name, maxLength) {
+  if (name.length <= maxLength) return name;
+  const extension = extensionOf(name);
+  return name.slice(0, maxLength - extension.length) + extension;
+}
+
+// ".jpg" for "Photo.JPG"; empty without an extension
+function extensionOf(name) {
+  const match = /\.[a-z0-9]{1,10}$/i.exec(name);
+  return match ? match[0].toLowerCase() : "";
+}
+
+// One folder or filename as it goes in a key: letters, digits, ".", "_" and
+// "-" only, so it needs no escaping anywhere, and never "." or ".."
+function keySegment(name) {
+  const segment = name
+    .normalize("NFC")
+    .replace(UNSAFE_CHARACTERS, "")
+    .replace(/[^\p{L}\p{N}._-]+/gu, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^[.-]+|-+$/g, "");
+  return truncate(segment, MAX_SEGMENT_LENGTH);
+}
+
+// A filename for a key, with its extension lowercased
+function keyFilename(filename) {
+  const extension = extensionOf(filename);
+  const base = keySegment(
+    filename.slice(0, filename.length - extension.length)
+  );
+  return `${base || "file"}${extension}`;
+}
+
+// The folders of a dropped or picked file's relative path ("a/b/file.jpg"
+// gives "a/b/"), cleaned up so they can't climb out of the user's prefix
+function keyFolder(relativePath) {
+  return relativePath
+    .split(/[/\\]/)
+    .slice(0, -1)
+    .map(keySegment)
+    .filter(Boolean)
+    .slice(0, MAX_FOLDER_DEPTH)
+    .map((folder) => `${folder}/`)
+    .join("");
+}
+
+// Strategies get the cleaned-up filename and, when the client sent one, the
+// base64 SHA-256 of the content. They return the key's last part.
+const keyStrategies = {
+  // 1712345678901-0b5c...-photo.jpg; the UUID tells apart files with the same
+  // name uploaded in the same millisecond
+  timestamp: ({ filename }) =>
+    `${Date.now()}-${crypto.randomUUID()}-${keyFilename(filename)}`,
+
+  // The same bytes always end up at the same key, so they're only stored
+  // once per user and folder. Files without a checksum get timestamp keys.
+  "content-hash": ({ filename, checksum }) => {
+    if (!checksum) return keyStrategies.timestamp({ filename });
+    const digest = Buffer.from(checksum, "base64").toString("hex");
+    return `${digest}${extensionOf(filename)}`;
+  },
+
+  // 2024/05/17/0b5c...-photo.jpg, by the UTC date it was uploaded
+  date: ({ filename }) => {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, "/");
+    return `${date}/${crypto.randomUUID()}-${keyFilename(filename)}`;
+  },
+};
+
+function createKeyStrategy(name) {
+  const strategy = keyStrategies[name];
+  if (!strategy) {
+    throw new Error(`Unknown UPLOAD_KEY_STRATEGY: ${name}`);
+  }
+  return strategy;
+}
+
+module.exports = {
+  keyStrategies,
+  createKeyStrategy,
+  cleanFilename,
+  keyFolder,
+};
@@ -0,0 +1,115 @@
+// Rate limits on presign requests and per-user storage quotas. Both reject
+// with a structured body: a message, a machine-readable code and the numbers
+// behind the decision.
+
+const rateLimit = {
+  windowMs: Number(process.env.RATE_LIMIT_WINDOW_MS) || 60 * 1000, // 1 minute
+  max: Number(process.env.RATE_LIMIT_MAX) || 60,
+};
+
+const quota = {
+  maxBytes: Number(process.env.QUOTA_MAX_BYTES) || 10 * 1024 * 1024 * 1024, // 10GB
+  maxObjects: Number(process.env.QUOTA_MAX_OBJECTS) || 1000,
+};
+
+// Fixed-window counters per client, which is the signed-in user or else the
+// IP address. Kept in memory, so each server process counts on its own.
+function createRateLimiter({ windowMs, max } = rateLimit) {
+  const windows = new Map();
+
+  // Drop finished windows now and then so the map doesn't grow forever
+  setInterval(() => {
+    const now = Date.now();
+    windows.forEach((window, client) => {
+      if (window.resetAt <= now) windows.delete(client);
+    });
+  }, windowMs).unref();
+
+  return (req, res, next) => {
+    const client = req.user ? `user:${req.user.id}` : `ip:${req.ip}`;
+    const now = Date.now();
+    let window = windows.get(client);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(client, window);
+    }
+    window.count++;
+
+    const retryAfter = Math.ceil((window.resetAt - now) / 1000);
+    res.set({
+      "RateLimit-Limit": String(max),
+      "RateLimit-Remaining": String(Math.max(0, max - window.count)),
+      "RateLimit-Reset": String(retryAfter),
+    });
+
+    if (window.count > max) {
+      res.set("Retry-After", String(retryAfter));
+      return res.status(429).json({
+        error: `Too many upload requests, try again in ${retryAfter}s`,
+        code: "rate_limited",
+        limit: max,
+        windowMs,
+        retryAfter,
+      });
+    }
+    next();
+  };
+}
+
+// What a user has stored, plus what they've been handed upload URLs for and
+// may still upload. Reservations lapse once they're past `reservedUntil`.
+function quotaUsage(
+  uploads,
+  userId,
+  { excludeKey, includeReserved = true } = {}
+) {
+  const now = Date.now();
+  let bytes = 0;
+  let objects = 0;
+
+  uploads.values().forEach((upload) => {
+    if (upload.userId !== userId || upload.key === excludeKey) return;
+    const counts =
+      upload.status === "confirmed" ||
+      (includeReserved &&
+        upload.status === "pending" &&
+        Date.parse(upload.reservedUntil) > now);
+    if (counts) {
+      bytes += upload.size;
+      objects++;
+    }
+  });
+
+  return {
+    bytes: { used: bytes, limit: quota.maxBytes },
+    objects: { used: objects, limit: quota.maxObjects },
+  };
+}
+
+// Returns a 413 rejection when one more file of `size` bytes doesn't fit, or
+// null when it does
+function checkQuota(usage, size) {
+  const reasons = [];
+  if (usage.bytes.used + size > usage.bytes.limit) {
+    const left = Math.max(0, usage.bytes.limit - usage.bytes.used);
+    reasons.push(
+      `the file is ${size} bytes but only ${left} of your ${usage.bytes.limit} bytes are left`
+    );
+  }
+  if (usage.objects.used + 1 > usage.objects.limit) {
+    reasons.push(`all ${usage.objects.limit} of your files are in use`);
+  }
+  if (reasons.length === 0) return null;
+
+  return {
+    status: 413,
+    body: {
+      error: `Storage quota exceeded: ${reasons.join(", ")}`,
+      code: "quota_exceeded",
+      quota: usage,
+      size,
+    },
+  };
+}
+
+module.exports = { createRateLimiter, quotaUsage, checkQuota };
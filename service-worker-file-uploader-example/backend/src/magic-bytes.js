@@ -0,0 +1,109 @@
+// Checks that an upload's content starts the way its declared type says it
+// should. The content type is only the client's claim; the leading bytes are
+// what decides how a browser or an image library treats the file. The
+// frontend sniffs files the same way before uploading them, in
+// lib/file-type.ts.
+
+const SNIFF_LENGTH = 64; // enough for every signature below
+
+function startsWith(buffer, bytes, offset = 0) {
+  const expected = typeof bytes === "string" ? Buffer.from(bytes) : bytes;
+  return (
+    buffer.length >= offset + expected.length &&
+    buffer.subarray(offset, offset + expected.length).equals(expected)
+  );
+}
+
+// ISO base media files (MP4, QuickTime, M4A, AVIF, HEIC) share the "ftyp"
+// box and differ in its major brand
+function isoMediaType(buffer) {
+  if (!startsWith(buffer, "ftyp", 4)) return null;
+  const brand = buffer.subarray(8, 12).toString("latin1");
+  if (brand === "qt  ") return "video/quicktime";
+  if (brand === "M4A " || brand === "M4B ") return "audio/mp4";
+  if (brand === "avif" || brand === "avis") return "image/avif";
+  if (["heic", "heix", "mif1", "msf1"].includes(brand)) return "image/heic";
+  return "video/mp4";
+}
+
+// The content type the bytes identify, or null when they match none we know
+function detectType(buffer) {
+  if (
+    startsWith(
+      buffer,
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+    )
+  ) {
+    return "image/png";
+  }
+  if (startsWith(buffer, Buffer.from([0xff, 0xd8, 0xff]))) return "image/jpeg";
+  if (startsWith(buffer, "GIF87a") || startsWith(buffer, "GIF89a")) {
+    return "image/gif";
+  }
+  if (startsWith(buffer, "RIFF") && startsWith(buffer, "WEBP", 8)) {
+    return "image/webp";
+  }
+  if (startsWith(buffer, Buffer.from([0x1a, 0x45, 0xdf, 0xa3]))) {
+    return "video/webm";
+  }
+  if (startsWith(buffer, "BM")) return "image/bmp";
+  if (
+    startsWith(buffer, Buffer.from([0x49, 0x49, 0x2a, 0x00])) ||
+    startsWith(buffer, Buffer.from([0x4d, 0x4d, 0x00, 0x2a]))
+  ) {
+    return "image/tiff";
+  }
+  if (startsWith(buffer, "%PDF-")) return "application/pdf";
+  return isoMediaType(buffer);
+}
+
+// Types with a signature above. Uploads of other types can't be checked.
+const KNOWN_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "image/avif",
+  "image/heic",
+  "image/bmp",
+  "image/tiff",
+  "video/webm",
+  "video/mp4",
+  "video/quicktime",
+  "application/pdf",
+];
+
+// MP4, QuickTime and M4A audio are the same container, and files are
+// routinely labelled as any of them
+const EQUIVALENT_TYPES = [
+  ["video/mp4", "video/quicktime", "audio/mp4", "audio/x-m4a"],
+];
+
+function matchesDeclared(detected, declared) {
+  return (
+    detected === declared ||
+    EQUIVALENT_TYPES.some(
+      (types) => types.includes(detected) && types.includes(declared)
+    )
+  );
+}
+
+// Reads the stored object's first bytes. Resolves null when the content fits
+// the declared type, or what's wrong when it doesn't.
+async function checkMagicBytes(storage, { key, contentType }) {
+  if (!KNOWN_TYPES.includes(contentType)) return null;
+
+  const head = await storage.getObject(key, {
+    range: { start: 0, end: SNIFF_LENGTH - 1 },
+  });
+  const detected = detectType(head);
+  if (!detected) {
+    return `content doesn't look like ${contentType}`;
+  }
+  if (!matchesDeclared(detected, contentType)) {
+    return `content is ${detected}, expected ${contentType}`;
+  }
+  return null;
+}
+
+module.exports = { detectType, checkMagicBytes, KNOWN_TYPES };
@@ -0,0 +1,40 @@
+// The upload policy the backend enforces, and the frontend reads from
+// GET /upload-policy to validate files and build the dropzone's `accept`.
+
+const DEFAULT_ALLOWED_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "video/mp4",
+  "video/quicktime",
+];
+
+const uploadPolicy = {
+  allowedTypes: process.env.UPLOAD_ALLOWED_TYPES
+    ? process.env.UPLOAD_ALLOWED_TYPES.split(",").map((type) => type.trim())
+    : DEFAULT_ALLOWED_TYPES,
+  maxFileSize:
+    Number(process.env.UPLOAD_MAX_FILE_SIZE) || 5 * 1024 * 1024 * 1024, // 5GB
+  keyPrefix: process.env.UPLOAD_KEY_PREFIX || "uploads/",
+};
+
+// Returns a rejection with the status code to answer with, or null when the
+// file is allowed
+function checkUpload({ filetype, size }) {
+  if (!uploadPolicy.allowedTypes.includes(filetype)) {
+    return {
+      status: 415,
+      error: `File type ${filetype} is not allowed`,
+    };
+  }
+  if (size > uploadPolicy.maxFileSize) {
+    return {
+      status: 413,
+      error: `File exceeds the ${uploadPolicy.maxFileSize} byte limit`,
+    };
+  }
+  return null;
+}
+
+module.exports = { uploadPolicy, checkUpload };
@@ -2,39 +2,404 @@ require("dotenv").config();
 
 const express = require("express");
 const cors = require("cors");
-const { S3Client, PutObjectCommand } = require("@aws-sdk/client-s3");
-const { getSignedUrl } = require("@aws-sdk/s3-request-presigner");
+const { createStore } = require("./store");
+const { uploadPolicy, checkUpload } = require("./policy");
+const { createStorage } = require("./storage");
+const { createRateLimiter, quotaUsage, checkQuota } = require("./limits");
+const { publish, streamEvents } = require("./events");
+const { createProcessingQueue } = require("./jobs");
+const { createKeyStrategy, cleanFilename, keyFolder } = require("./keys");
+const { checkMagicBytes } = require("./magic-bytes");
+const {
+  AuthError,
+  register,
+  login,
+  requireAuth,
+  userPrefix,
+  ownsKey,
+} = require("./auth");
 
 const app = express();
 
-app.use(cors());
+// Only the frontend's origin may call the API. Multipart part uploads read the
+// ETag header from the storage response.
+app.use(
+  cors({
+    origin: (process.env.CORS_ORIGIN || "http://localhost:5173").split(","),
+    exposedHeaders: ["ETag", "Retry-After"],
+  })
+);
 app.use(express.json());
 
-const s3Client = new S3Client({
-  region: process.env.AWS_REGION,
-  credentials: {
-    accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
-  },
+// S3, an S3-compatible store or the local disk, see storage/index.js
+const storage = createStorage();
+if (storage.router) {
+  app.use("/storage", storage.router);
+}
+
+// How long presigned upload URLs stay valid, in seconds
+const UPLOAD_URL_EXPIRES_IN = 3600;
+
+// How long an unfinished multipart upload keeps its share of the quota. Part
+// URLs are issued as they're needed, so these outlive a single URL.
+const MULTIPART_RESERVATION = 24 * 60 * 60; // 1 day
+
+// How long presigned download URLs stay valid, in seconds. The bucket is
+// private, so clients ask for a fresh URL once theirs runs out.
+const DOWNLOAD_URL_EXPIRES_IN = 15 * 60;
+
+// What each presigned upload was issued for, keyed by object key, and whether
+// the stored object has been checked against it
+const uploads = createStore("uploads");
+
+function recordUpload({
+  key,
+  userId,
+  filename,
+  filetype,
+  size,
+  checksum,
+  metadata,
+  folder,
+  reservedFor,
+}) {
+  const upload = uploads.set(key, {
+    key,
+    userId,
+    filename,
+    // The folders it was uploaded from, e.g. "photos/2024/"
+    folder,
+    contentType: filetype,
+    size,
+    checksum,
+    metadata,
+    status: "pending",
+    createdAt: new Date().toISOString(),
+    // Counts against the user's quota until then, unless confirmed earlier
+    reservedUntil: new Date(Date.now() + reservedFor * 1000).toISOString(),
+  });
+  publish(userId, "presigned", upload);
+}
+
+// Reject a stored object that failed a check: it's deleted and the client is
+// told why over the event stream
+async function rejectUpload(upload, reason) {
+  await storage.deleteObject(upload.key);
+  const rejected = uploads.update(upload.key, { status: "rejected", reason });
+  publish(upload.userId, "rejected", rejected, { reason });
+}
+
+// Objects the processors stored next to an upload, such as its thumbnail
+function derivedKeys(jobs) {
+  return jobs.map((job) => job.result?.key).filter(Boolean);
+}
+
+// Called once none of an upload's jobs are left to run. A processor
+// that rejected the content rejects the whole upload; other failures still
+// leave it ready, without that processor's result.
+async function finishProcessing(key, jobs) {
+  const upload = uploads.get(key);
+  if (!upload || upload.status !== "confirmed") return;
+
+  const rejection = jobs.find((job) => job.rejected);
+  if (rejection) {
+    await Promise.all(derivedKeys(jobs).map((k) => storage.deleteObject(k)));
+    await rejectUpload(upload, rejection.error);
+    return;
+  }
+
+  const ready = uploads.update(key, {
+    processing: "ready",
+    processedAt: new Date().toISOString(),
+    results: Object.fromEntries(
+      jobs
+        .filter((job) => job.status === "succeeded")
+        .map((job) => [job.processor, job.result])
+    ),
+  });
+  publish(upload.userId, "ready", ready);
+}
+
+const jobQueue = createProcessingQueue({
+  storage,
+  getUpload: (key) => uploads.get(key),
+  onSettled: finishProcessing,
+});
+jobQueue.start();
+
+// Hand a confirmed upload to the processors, reported as processing and then
+// ready or rejected once they're done
+function processUpload(upload) {
+  const processing = uploads.update(upload.key, { processing: "processing" });
+  publish(upload.userId, "processing", processing);
+  jobQueue.enqueue(processing);
+}
+
+// A Content-Disposition value (RFC 6266), with an ASCII fallback filename for
+// clients that don't read filename*
+function contentDisposition(type, filename) {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+// S3 numbers the parts of a multipart upload from 1 to 10,000
+const MAX_PART_NUMBER = 10000;
+
+function isPartNumber(partNumber) {
+  return (
+    Number.isInteger(partNumber) &&
+    partNumber >= 1 &&
+    partNumber <= MAX_PART_NUMBER
+  );
+}
+
+// The parts a client sends to complete a multipart upload with
+function isPartList(parts) {
+  return (
+    Array.isArray(parts) &&
+    parts.length > 0 &&
+    parts.every(
+      (part) =>
+        isPartNumber(part?.PartNumber) &&
+        typeof part.ETag === "string" &&
+        part.ETag !== ""
+    )
+  );
+}
+
+// S3 answers NoSuchUpload once a multipart upload is completed, aborted or
+// expired, and local storage a 404 for those or an upload of another key
+function isMissingUpload(error) {
+  return error.name === "NoSuchUpload" || error.status === 404;
+}
+
+// A SHA-256 checksum is 32 bytes, sent base64 encoded as S3 expects it
+function isChecksum(checksum) {
+  return (
+    typeof checksum === "string" &&
+    Buffer.from(checksum, "base64").length === 32 &&
+    Buffer.from(checksum, "base64").toString("base64") === checksum
+  );
+}
+
+// Where a user's uploads go
+function keyPrefix(user) {
+  return `${userPrefix(user)}${uploadPolicy.keyPrefix}`;
+}
+
+// How the last part of a key is picked, see keys.js: "content-hash" (the
+// default), "timestamp" or "date"
+const keyStrategy = createKeyStrategy(
+  process.env.UPLOAD_KEY_STRATEGY || "content-hash"
+);
+
+// Keys mirror the folders the file was uploaded from
+function uploadKey({ user, filename, checksum, folder = "" }) {
+  return `${keyPrefix(user)}${folder}${keyStrategy({ filename, checksum })}`;
+}
+
+// Checks the request fields both presign routes share. Returns the parsed
+// fields, or the 400 error to answer with.
+function parseUploadRequest(body) {
+  const { filetype, size, checksum, relativePath, keyPrefix } = body;
+  if (!body.filename || !filetype || !Number.isFinite(size)) {
+    return { error: "filename, filetype and size are required" };
+  }
+  const filename =
+    typeof body.filename === "string" ? cleanFilename(body.filename) : "";
+  if (!filename) {
+    return { error: "filename must be a valid file name" };
+  }
+  if (checksum !== undefined && !isChecksum(checksum)) {
+    return { error: "checksum must be a base64 SHA-256 digest" };
+  }
+  if (relativePath !== undefined && typeof relativePath !== "string") {
+    return { error: "relativePath must be a string" };
+  }
+  if (keyPrefix !== undefined && typeof keyPrefix !== "string") {
+    return { error: "keyPrefix must be a string" };
+  }
+
+  // A client's own prefix goes in front of the file's folders, still under
+  // the user's prefix
+  const folder =
+    (keyPrefix ? keyFolder(`${keyPrefix}/`) : "") +
+    (relativePath ? keyFolder(relativePath) : "");
+  return {
+    filename,
+    filetype,
+    size,
+    checksum,
+    folder,
+    metadata: mediaMetadata(body.metadata),
+  };
+}
+
+// Routes that act on an object key only accept keys under the caller's prefix
+function requireOwnKey(readKey) {
+  return (req, res, next) => {
+    if (!ownsKey(req.user, readKey(req))) {
+      return res.status(403).json({
+        error: "You don't have access to that upload",
+      });
+    }
+    next();
+  };
+}
+
+const bodyKey = (req) => req.body.key;
+const queryKey = (req) => req.query.key;
+const paramKey = (req) => req.params.key.join("/");
+
+// Media details the browser read from the file. Known, well-formed fields are
+// kept; the rest is dropped rather than failing the upload.
+function mediaMetadata(metadata) {
+  if (!metadata || typeof metadata !== "object") return undefined;
+  const { width, height, duration, hasAudio } = metadata;
+  const isPositive = (value) => Number.isFinite(value) && value > 0;
+
+  return {
+    ...(Number.isInteger(width) && width > 0 && { width }),
+    ...(Number.isInteger(height) && height > 0 && { height }),
+    ...(isPositive(duration) && { duration }),
+    ...(typeof hasAudio === "boolean" && { hasAudio }),
+  };
+}
+
+// The same details as x-amz-meta-* object metadata, which only holds ASCII
+// strings. The original filename is kept URI-encoded as original-name, since
+// keys only hold a cleaned-up version of it, if any.
+function objectMetadata(filename, metadata = {}) {
+  const names = {
+    width: "width",
+    height: "height",
+    duration: "duration",
+    hasAudio: "has-audio",
+  };
+  return {
+    "original-name": encodeURIComponent(filename),
+    ...Object.fromEntries(
+      Object.entries(metadata).map(([name, value]) => [
+        names[name],
+        String(value),
+      ])
+    ),
+  };
+}
+
+// A confirmed upload that's still in storage, so the file doesn't need sending
+async function findExisting(key) {
+  const upload = uploads.get(key);
+  return upload?.status === "confirmed" && (await storage.headObject(key))
+    ? upload
+    : null;
+}
+
+app.get("/upload-policy", (req, res) => {
+  res.json(uploadPolicy);
+});
+
+// Accounts and sessions. Both answer with a bearer token for the other routes.
+function authRoute(action, handler) {
+  return async (req, res) => {
+    try {
+      res.json(await handler(req.body));
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error(`Error ${action}:${error}`);
+      res.status(500).json({
+        error: `Failed ${action}`,
+      });
+    }
+  };
+}
+
+app.post("/register", authRoute("registering", register));
+app.post("/login", authRoute("signing in", login));
+
+// Everything below needs a signed-in user
+app.use(requireAuth);
+
+app.get("/me", (req, res) => {
+  res.json({ user: req.user });
 });
 
-app.post("/get-upload-url", async (req, res) => {
+// Server-Sent Events stream of the caller's upload lifecycle events
+app.get("/events", streamEvents);
+
+app.get("/quota", (req, res) => {
+  res.json(quotaUsage(uploads, req.user.id));
+});
+
+// Issuing upload URLs is what's rate limited, per signed-in user
+const presignLimiter = createRateLimiter();
+
+// A 413 when the file doesn't fit in what's left of the caller's quota. The
+// key being issued is left out, in case an earlier URL for it is still open.
+function rejectOverQuota(req, res, { key, size }) {
+  const rejection = checkQuota(
+    quotaUsage(uploads, req.user.id, { excludeKey: key }),
+    size
+  );
+  if (rejection) {
+    res.status(rejection.status).json(rejection.body);
+    return true;
+  }
+  return false;
+}
+
+// Uploads go through a presigned POST form rather than a PUT URL, so the
+// storage itself enforces the exact declared size, content type and key prefix
+app.post("/get-upload-url", presignLimiter, async (req, res) => {
   try {
-    const { filename, filetype } = req.body;
-    const key = `uploads/${Date.now()}-${filename}`;
+    const request = parseUploadRequest(req.body);
+    if (request.error) {
+      return res.status(400).json({ error: request.error });
+    }
+    const { filename, filetype, size, checksum, folder, metadata } = request;
+    const rejection = checkUpload({ filetype, size });
+    if (rejection) {
+      return res.status(rejection.status).json({ error: rejection.error });
+    }
+    const key = uploadKey({ user: req.user, filename, checksum, folder });
 
-    const command = new PutObjectCommand({
-      Bucket: process.env.AWS_S3_BUCKET,
-      Key: key,
-      ContentType: filetype,
+    if (await findExisting(key)) {
+      return res.json({ alreadyUploaded: true, key });
+    }
+    if (rejectOverQuota(req, res, { key, size })) return;
+
+    const { url, fields } = await storage.createUpload({
+      key,
+      contentType: filetype,
+      size,
+      checksum,
+      metadata: objectMetadata(filename, metadata),
+      contentDisposition: contentDisposition("attachment", filename),
+      keyPrefix: keyPrefix(req.user),
+      expiresIn: UPLOAD_URL_EXPIRES_IN,
     });
 
-    const presignedurl = await getSignedUrl(s3Client, command, {
-      expiresIn: 3600,
+    recordUpload({
+      key,
+      userId: req.user.id,
+      filename,
+      filetype,
+      size,
+      checksum,
+      metadata,
+      folder,
+      reservedFor: UPLOAD_URL_EXPIRES_IN,
     });
 
     res.json({
-      url: presignedurl,
+      url,
+      fields,
       key,
     });
   } catch (error) {
@@ -45,19 +410,441 @@ app.post("/get-upload-url", async (req, res) => {
   }
 });
 
-app.post('/confirm-upload',async (req, res) => {
-    // TODO: validate the upload
-    const {key} = req.body;
+// Multipart uploads for large files. The browser PUTs each part to its own
+// presigned URL and reads the part's ETag from the response, so on S3 the
+// bucket's CORS configuration has to expose the ETag header.
+
+app.post("/create-multipart-upload", presignLimiter, async (req, res) => {
+  try {
+    const request = parseUploadRequest(req.body);
+    if (request.error) {
+      return res.status(400).json({ error: request.error });
+    }
+    const { filename, filetype, size, checksum, folder, metadata } = request;
+    // Parts can't carry a POST policy, so large files are checked here and
+    // their final size and type again on confirm
+    const rejection = checkUpload({ filetype, size });
+    if (rejection) {
+      return res.status(rejection.status).json({ error: rejection.error });
+    }
+    const key = uploadKey({ user: req.user, filename, checksum, folder });
+
+    if (await findExisting(key)) {
+      return res.json({ alreadyUploaded: true, key });
+    }
+    if (rejectOverQuota(req, res, { key, size })) return;
+
+    const uploadId = await storage.createMultipartUpload({
+      key,
+      contentType: filetype,
+      metadata: objectMetadata(filename, metadata),
+      contentDisposition: contentDisposition("attachment", filename),
+    });
+
+    // Parts can't be checked against the file's checksum, so the whole
+    // object is on confirm, before its key can be reused for the same content
+    recordUpload({
+      key,
+      userId: req.user.id,
+      filename,
+      filetype,
+      size,
+      checksum,
+      metadata,
+      folder,
+      reservedFor: MULTIPART_RESERVATION,
+    });
+
+    res.json({
+      uploadId,
+      key,
+    });
+  } catch (error) {
+    console.error(`Error creating multipart upload:${error}`);
+    res.status(500).json({
+      error: "Failed to create multipart upload",
+    });
+  }
+});
+
+app.post("/get-upload-part-url", requireOwnKey(bodyKey), async (req, res) => {
+  try {
+    const { key, uploadId, partNumber } = req.body;
+    if (!isPartNumber(partNumber)) {
+      return res.status(400).json({
+        error: `partNumber must be an integer from 1 to ${MAX_PART_NUMBER}`,
+      });
+    }
+
+    const presignedurl = await storage.getPartUrl({
+      key,
+      uploadId,
+      partNumber,
+      expiresIn: UPLOAD_URL_EXPIRES_IN,
+    });
 
     res.json({
-        success:true,
+      url: presignedurl,
+    });
+  } catch (error) {
+    if (isMissingUpload(error)) {
+      return res.status(404).json({ error: "Multipart upload not found" });
+    }
+    console.error(`Error generating part URL:${error}`);
+    res.status(500).json({
+      error: "Failed to generate upload part URL",
+    });
+  }
+});
+
+app.get("/list-upload-parts", requireOwnKey(queryKey), async (req, res) => {
+  try {
+    const { key, uploadId } = req.query;
+    const parts = await storage.listParts({ key, uploadId });
+
+    // The upload was completed, aborted or expired; the client starts over
+    if (!parts) {
+      return res.status(404).json({
+        error: "Multipart upload not found",
+      });
+    }
+
+    res.json({ parts });
+  } catch (error) {
+    console.error(`Error listing upload parts:${error}`);
+    res.status(500).json({
+      error: "Failed to list upload parts",
+    });
+  }
+});
+
+app.post(
+  "/complete-multipart-upload",
+  requireOwnKey(bodyKey),
+  async (req, res) => {
+    try {
+      const { key, uploadId, parts } = req.body;
+      if (!isPartList(parts)) {
+        return res.status(400).json({
+          error: "parts must be a non-empty list of { PartNumber, ETag }",
+        });
+      }
+
+      await storage.completeMultipartUpload({
+        key,
+        uploadId,
+        parts: parts
+          .map(({ PartNumber, ETag }) => ({ PartNumber, ETag }))
+          .sort((a, b) => a.PartNumber - b.PartNumber),
+      });
+
+      res.json({ key });
+    } catch (error) {
+      if (isMissingUpload(error)) {
+        return res.status(404).json({ error: "Multipart upload not found" });
+      }
+      console.error(`Error completing multipart upload:${error}`);
+      res.status(500).json({
+        error: "Failed to complete multipart upload",
+      });
+    }
+  }
+);
+
+app.post(
+  "/abort-multipart-upload",
+  requireOwnKey(bodyKey),
+  async (req, res) => {
+    try {
+      const { key, uploadId } = req.body;
+
+      await storage.abortMultipartUpload({ key, uploadId });
+
+      res.json({ success: true });
+    } catch (error) {
+      if (isMissingUpload(error)) {
+        return res.status(404).json({ error: "Multipart upload not found" });
+      }
+      console.error(`Error aborting multipart upload:${error}`);
+      res.status(500).json({
+        error: "Failed to abort multipart upload",
+      });
+    }
+  }
+);
+
+// Check the stored object against what its upload URL was issued for before
+// recording the upload as confirmed. Objects that don't match are deleted.
+app.post("/confirm-upload", requireOwnKey(bodyKey), async (req, res) => {
+  try {
+    const { key } = req.body;
+    const upload = uploads.get(key);
+
+    if (!upload) {
+      return res.status(404).json({
+        error: "Unknown upload",
+      });
+    }
+
+    if (upload.status === "confirmed") {
+      return res.json({
+        success: true,
         message: "Upload confirmed!",
-        imageUrl: `https://${process.env.AWS_S3_BUCKET}.s3.amazonaws.com/${key}`
-    })
-})
+        upload,
+      });
+    }
+
+    const head = await storage.headObject(key);
+    if (!head) {
+      return res.status(409).json({
+        error: "Object has not been uploaded",
+      });
+    }
+
+    const mismatches = [];
+    if (head.size !== upload.size) {
+      mismatches.push(`size is ${head.size} bytes, expected ${upload.size}`);
+    }
+    if (head.contentType !== upload.contentType) {
+      mismatches.push(
+        `content type is ${head.contentType}, expected ${upload.contentType}`
+      );
+    }
+    // Multipart objects on S3 have no checksum of the whole file, so it's
+    // worked out from their content
+    if (
+      upload.checksum &&
+      (head.checksum ?? (await storage.checksumObject(key))) !== upload.checksum
+    ) {
+      mismatches.push("SHA-256 checksum does not match");
+    }
+    // The content has to be what its type says, whatever the client claimed
+    const contentMismatch = await checkMagicBytes(storage, upload);
+    if (contentMismatch) mismatches.push(contentMismatch);
+
+    if (mismatches.length > 0) {
+      const error = `Uploaded object doesn't match the request: ${mismatches.join(", ")}`;
+      uploads.update(key, { mismatches });
+      await rejectUpload(upload, error);
+
+      return res.status(422).json({ error, mismatches });
+    }
+
+    // Reservations are estimates; what counts is the stored objects. Other
+    // confirmations may have used up the quota since the URL was issued.
+    const overQuota = checkQuota(
+      quotaUsage(uploads, req.user.id, {
+        excludeKey: key,
+        includeReserved: false,
+      }),
+      head.size
+    );
+    if (overQuota) {
+      await rejectUpload(upload, overQuota.body.error);
+      return res.status(overQuota.status).json(overQuota.body);
+    }
+
+    const confirmed = uploads.update(key, {
+      status: "confirmed",
+      etag: head.etag,
+      confirmedAt: new Date().toISOString(),
+    });
+    publish(confirmed.userId, "confirmed", confirmed);
+
+    res.json({
+      success: true,
+      message: "Upload confirmed!",
+      upload: confirmed,
+    });
+
+    processUpload(confirmed);
+  } catch (error) {
+    console.error(`Error confirming upload:${error}`);
+    res.status(500).json({
+      error: "Failed to confirm upload",
+    });
+  }
+});
+
+// Pages of the gallery pick up after the last upload shown, by when it was
+// confirmed and its key, so deleting that upload doesn't lose the place
+function encodeCursor({ confirmedAt, key }) {
+  return Buffer.from(JSON.stringify([confirmedAt, key])).toString("base64url");
+}
+
+function decodeCursor(cursor) {
+  try {
+    const [confirmedAt, key] = JSON.parse(
+      Buffer.from(String(cursor), "base64url").toString()
+    );
+    if (typeof confirmedAt === "string" && typeof key === "string") {
+      return { confirmedAt, key };
+    }
+  } catch {
+    // Falls through to null
+  }
+  return null;
+}
+
+// Newest first, and by key between uploads confirmed at the same moment
+function compareNewestFirst(a, b) {
+  return (
+    b.confirmedAt.localeCompare(a.confirmedAt) || b.key.localeCompare(a.key)
+  );
+}
+
+// The caller's confirmed uploads, newest first. `cursor` is the previous
+// page's `nextCursor`.
+app.get("/uploads", (req, res) => {
+  const limit = Math.min(Number(req.query.limit) || 24, 100);
+  const cursor = req.query.cursor ? decodeCursor(req.query.cursor) : null;
+  if (req.query.cursor && !cursor) {
+    return res.status(400).json({ error: "Invalid cursor" });
+  }
 
+  const confirmed = uploads
+    .values()
+    .filter(
+      (upload) =>
+        upload.status === "confirmed" &&
+        ownsKey(req.user, upload.key) &&
+        (!cursor || compareNewestFirst(cursor, upload) < 0)
+    )
+    .sort(compareNewestFirst);
+  const page = confirmed.slice(0, limit);
+
+  res.json({
+    uploads: page,
+    nextCursor:
+      confirmed.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  });
+});
+
+app.get("/uploads/*key", requireOwnKey(paramKey), async (req, res) => {
+  try {
+    const key = req.params.key.join("/");
+    const upload = uploads.get(key);
+
+    if (!upload || upload.status !== "confirmed") {
+      return res.status(404).json({
+        error: "Upload not found",
+      });
+    }
+
+    // What the storage holds now, alongside what was recorded on confirm
+    const head = await storage.headObject(key);
+    res.json({ upload, object: head });
+  } catch (error) {
+    console.error(`Error fetching upload:${error}`);
+    res.status(500).json({
+      error: "Failed to fetch upload",
+    });
+  }
+});
+
+// A short-lived URL for reading a confirmed upload. With
+// `disposition=attachment` browsers download the file instead of showing it.
+app.get("/download-url", requireOwnKey(queryKey), async (req, res) => {
+  try {
+    const { key, disposition = "inline" } = req.query;
+    if (!["inline", "attachment"].includes(disposition)) {
+      return res.status(400).json({
+        error: "disposition must be inline or attachment",
+      });
+    }
+
+    const upload = uploads.get(key);
+    if (!upload || upload.status !== "confirmed") {
+      return res.status(404).json({
+        error: "Upload not found",
+      });
+    }
+
+    const url = await storage.getDownloadUrl({
+      key,
+      disposition: contentDisposition(disposition, upload.filename),
+      expiresIn: DOWNLOAD_URL_EXPIRES_IN,
+    });
+
+    res.json({
+      url,
+      expiresAt: new Date(
+        Date.now() + DOWNLOAD_URL_EXPIRES_IN * 1000
+      ).toISOString(),
+    });
+  } catch (error) {
+    console.error(`Error generating download URL:${error}`);
+    res.status(500).json({
+      error: "Failed to generate download URL",
+    });
+  }
+});
+
+// The post-processing jobs for one of the caller's uploads
+app.get("/jobs", requireOwnKey(queryKey), (req, res) => {
+  const { key } = req.query;
+  const upload = uploads.get(key);
+  if (!upload) {
+    return res.status(404).json({
+      error: "Upload not found",
+    });
+  }
+
+  res.json({
+    key,
+    status: upload.status,
+    processing: upload.processing || null,
+    jobs: jobQueue
+      .jobsFor(key)
+      .map(
+        ({
+          processor,
+          status,
+          attempts,
+          error,
+          result,
+          runAfter,
+          updatedAt,
+        }) => ({
+          processor,
+          status,
+          attempts,
+          error,
+          result,
+          runAfter,
+          updatedAt,
+        })
+      ),
+  });
+});
+
+app.delete("/uploads/*key", requireOwnKey(paramKey), async (req, res) => {
+  try {
+    const key = req.params.key.join("/");
+
+    if (!uploads.get(key)) {
+      return res.status(404).json({
+        error: "Upload not found",
+      });
+    }
+
+    const jobs = jobQueue.jobsFor(key);
+    await Promise.all(
+      [key, ...derivedKeys(jobs)].map((k) => storage.deleteObject(k))
+    );
+    jobQueue.remove(key);
+    uploads.delete(key);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error(`Error deleting upload:${error}`);
+    res.status(500).json({
+      error: "Failed to delete upload",
+    });
+  }
+});
 
 const PORT = process.env.PORT || 8080;
 app.listen(PORT, () => {
-    console.log(`Server running on port ${PORT}`);
-})
\ No newline at end of file
+  console.log(`Server running on port ${PORT} with ${storage.name} storage`);
+});
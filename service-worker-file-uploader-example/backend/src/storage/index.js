@@ -0,0 +1,50 @@
+const crypto = require("crypto");
+const path = require("path");
+const { createS3Storage } = require("./s3");
+const { createLocalStorage } = require("./local");
+
+// Picks the storage driver from STORAGE_DRIVER ("s3" or "local"). Without it,
+// S3 is used when a bucket is configured and the local disk otherwise.
+function createStorage() {
+  const driver =
+    process.env.STORAGE_DRIVER || (process.env.AWS_S3_BUCKET ? "s3" : "local");
+
+  switch (driver) {
+    case "s3":
+      return createS3Storage({
+        bucket: process.env.AWS_S3_BUCKET,
+        region: process.env.AWS_REGION,
+        endpoint: process.env.S3_ENDPOINT,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+        credentials: {
+          accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+          secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+        },
+      });
+
+    case "local": {
+      let secret = process.env.LOCAL_STORAGE_SECRET;
+      if (!secret) {
+        console.warn(
+          "LOCAL_STORAGE_SECRET is not set, signed URLs won't survive a restart"
+        );
+        secret = crypto.randomBytes(32).toString("hex");
+      }
+
+      return createLocalStorage({
+        root:
+          process.env.LOCAL_STORAGE_DIR ||
+          path.join(__dirname, "..", "..", "data", "storage"),
+        publicUrl:
+          process.env.PUBLIC_URL ||
+          `http://localhost:${process.env.PORT || 8080}`,
+        secret,
+      });
+    }
+
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+}
+
+module.exports = { createStorage };
@@ -0,0 +1,565 @@
+const fs = require("fs");
+const fsp = require("fs/promises");
+const path = require("path");
+const crypto = require("crypto");
+const { Readable, Transform } = require("stream");
+const { pipeline } = require("stream/promises");
+const express = require("express");
+const busboy = require("busboy");
+
+// S3's limit for one part of a multipart upload
+const MAX_PART_SIZE = 5 * 1024 ** 3; // 5GB
+
+class StorageError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Storage on the server's own disk, for running the uploader without S3. The
+// Express router it exposes stands in for S3: it takes the same presigned
+// POST forms and part PUTs, and serves objects, all behind HMAC-signed URLs
+// that expire.
+function createLocalStorage({ root, publicUrl, secret }) {
+  root = path.resolve(root);
+  const objectsDir = path.join(root, "objects");
+  const metaDir = path.join(root, "meta");
+  const multipartDir = path.join(root, "multipart");
+  const tmpDir = path.join(root, "tmp");
+
+  function sign(value) {
+    return crypto.createHmac("sha256", secret).update(value).digest("hex");
+  }
+
+  function verify(value, signature) {
+    const expected = Buffer.from(sign(value));
+    const actual = Buffer.from(String(signature || ""));
+    return (
+      actual.length === expected.length &&
+      crypto.timingSafeEqual(actual, expected)
+    );
+  }
+
+  function encodeKey(key) {
+    return key.split("/").map(encodeURIComponent).join("/");
+  }
+
+  function urlSignature(method, urlPath, expires, disposition = "") {
+    return `${method}\n${urlPath}\n${expires}\n${disposition}`;
+  }
+
+  function signedUrl(method, urlPath, expiresIn, disposition) {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const query = new URLSearchParams({ expires });
+    if (disposition) {
+      query.set("response-content-disposition", disposition);
+    }
+    query.set(
+      "signature",
+      sign(urlSignature(method, urlPath, expires, disposition))
+    );
+    return `${publicUrl}${urlPath}?${query}`;
+  }
+
+  function checkExpiry(expires) {
+    if (!(Number(expires) > Date.now() / 1000)) {
+      throw new StorageError(403, "Request has expired");
+    }
+  }
+
+  // Signed URLs cover the method, the path as sent, the expiry and the
+  // Content-Disposition to respond with
+  function checkSignedUrl(req) {
+    const urlPath = req.originalUrl.split("?")[0];
+    const { expires, signature } = req.query;
+    const disposition = req.query["response-content-disposition"];
+    if (
+      !verify(
+        urlSignature(req.method, urlPath, expires, disposition),
+        signature
+      )
+    ) {
+      throw new StorageError(403, "Request signature does not match");
+    }
+    checkExpiry(expires);
+  }
+
+  // Keys map onto paths under the storage root and must stay inside it
+  function resolveInside(dir, relative) {
+    const resolved = path.resolve(dir, relative);
+    if (!resolved.startsWith(dir + path.sep)) {
+      throw new StorageError(400, "Invalid object key");
+    }
+    return resolved;
+  }
+
+  function multipartPath(uploadId, file = "") {
+    if (!/^[0-9a-f-]{36}$/.test(uploadId)) {
+      throw new StorageError(400, "Invalid upload id");
+    }
+    return path.join(multipartDir, uploadId, file);
+  }
+
+  // Stream into a temp file, hashing along the way and stopping as soon as
+  // the body passes maxSize, before it can fill the disk
+  async function writeTemp(source, { maxSize = Infinity } = {}) {
+    await fsp.mkdir(tmpDir, { recursive: true });
+    const file = path.join(tmpDir, crypto.randomUUID());
+    const sha256 = crypto.createHash("sha256");
+    const md5 = crypto.createHash("md5");
+    let size = 0;
+
+    try {
+      await pipeline(
+        source,
+        new Transform({
+          transform(chunk, encoding, callback) {
+            size += chunk.length;
+            if (size > maxSize) {
+              callback(
+                new StorageError(
+                  400,
+                  "Your proposed upload exceeds the maximum size allowed"
+                )
+              );
+              return;
+            }
+            sha256.update(chunk);
+            md5.update(chunk);
+            callback(null, chunk);
+          },
+        }),
+        fs.createWriteStream(file)
+      );
+    } catch (error) {
+      await fsp.rm(file, { force: true });
+      throw error;
+    }
+
+    return {
+      file,
+      size,
+      checksum: sha256.digest("base64"),
+      etag: `"${md5.digest("hex")}"`,
+    };
+  }
+
+  async function storeObject(
+    key,
+    temp,
+    { contentType, contentDisposition, metadata = {} }
+  ) {
+    const objectPath = resolveInside(objectsDir, key);
+    const metaPath = resolveInside(metaDir, `${key}.json`);
+
+    await fsp.mkdir(path.dirname(objectPath), { recursive: true });
+    await fsp.mkdir(path.dirname(metaPath), { recursive: true });
+    await fsp.rename(temp.file, objectPath);
+    await fsp.writeFile(
+      metaPath,
+      JSON.stringify({
+        contentType,
+        contentDisposition,
+        checksum: temp.checksum,
+        etag: temp.etag,
+        metadata,
+      })
+    );
+  }
+
+  // Form fields named like S3's x-amz-meta-* headers
+  function metadataFields(metadata) {
+    return Object.fromEntries(
+      Object.entries(metadata).map(([name, value]) => [
+        `x-amz-meta-${name}`,
+        value,
+      ])
+    );
+  }
+
+  function metadataFromFields(fields) {
+    return Object.fromEntries(
+      Object.entries(fields)
+        .filter(([name]) => name.startsWith("x-amz-meta-"))
+        .map(([name, value]) => [name.slice("x-amz-meta-".length), value])
+    );
+  }
+
+  function uploadFormSignature({
+    key,
+    contentType,
+    contentDisposition,
+    size,
+    checksum,
+    metadata,
+    expires,
+  }) {
+    const sortedMetadata = Object.entries(metadata).sort(([a], [b]) =>
+      a.localeCompare(b)
+    );
+    return JSON.stringify([
+      key,
+      contentType,
+      contentDisposition || "",
+      size,
+      checksum || "",
+      sortedMetadata,
+      expires,
+    ]);
+  }
+
+  async function createUpload({
+    key,
+    contentType,
+    size,
+    checksum,
+    metadata = {},
+    contentDisposition,
+    expiresIn,
+  }) {
+    const expires = String(Math.floor(Date.now() / 1000) + expiresIn);
+    const fields = {
+      key,
+      "Content-Type": contentType,
+      size: String(size),
+      ...metadataFields(metadata),
+      expires,
+    };
+    if (contentDisposition) fields["Content-Disposition"] = contentDisposition;
+    if (checksum) fields.checksum = checksum;
+    fields.signature = sign(
+      uploadFormSignature({
+        key,
+        contentType,
+        contentDisposition,
+        size,
+        checksum,
+        metadata,
+        expires,
+      })
+    );
+
+    return { url: `${publicUrl}/storage/upload`, fields };
+  }
+
+  async function createMultipartUpload({
+    key,
+    contentType,
+    metadata,
+    contentDisposition,
+  }) {
+    const uploadId = crypto.randomUUID();
+    resolveInside(objectsDir, key);
+    await fsp.mkdir(multipartPath(uploadId), { recursive: true });
+    await fsp.writeFile(
+      multipartPath(uploadId, "upload.json"),
+      JSON.stringify({ key, contentType, metadata, contentDisposition })
+    );
+    return uploadId;
+  }
+
+  // The multipart upload's record, or null when it was completed or aborted or
+  // is for another key
+  async function readMultipartUpload(uploadId, key) {
+    let upload;
+    try {
+      upload = JSON.parse(
+        await fsp.readFile(multipartPath(uploadId, "upload.json"), "utf8")
+      );
+    } catch (error) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+    return upload.key === key ? upload : null;
+  }
+
+  async function findMultipartUpload(uploadId, key) {
+    const upload = await readMultipartUpload(uploadId, key);
+    if (!upload) throw new StorageError(404, "Multipart upload not found");
+    return upload;
+  }
+
+  async function getPartUrl({ key, uploadId, partNumber, expiresIn }) {
+    await findMultipartUpload(uploadId, key);
+    return signedUrl(
+      "PUT",
+      `/storage/parts/${uploadId}/${partNumber}`,
+      expiresIn
+    );
+  }
+
+  // Resolves null when the multipart upload no longer exists
+  async function listParts({ key, uploadId }) {
+    if (!(await readMultipartUpload(uploadId, key))) return null;
+    const files = await fsp.readdir(multipartPath(uploadId));
+
+    const parts = await Promise.all(
+      files
+        .filter((file) => /^\d+\.json$/.test(file))
+        .map(async (file) =>
+          JSON.parse(await fsp.readFile(multipartPath(uploadId, file), "utf8"))
+        )
+    );
+    return parts.sort((a, b) => a.PartNumber - b.PartNumber);
+  }
+
+  async function completeMultipartUpload({ key, uploadId, parts }) {
+    const { contentType, metadata, contentDisposition } =
+      await findMultipartUpload(uploadId, key);
+    const stored = new Map(
+      ((await listParts({ key, uploadId })) || []).map((part) => [
+        part.PartNumber,
+        part,
+      ])
+    );
+
+    for (const { PartNumber, ETag } of parts) {
+      if (stored.get(PartNumber)?.ETag !== ETag) {
+        throw new StorageError(400, `Part ${PartNumber} is missing or changed`);
+      }
+    }
+
+    async function* concatenate() {
+      for (const { PartNumber } of parts) {
+        yield* fs.createReadStream(
+          multipartPath(uploadId, `${PartNumber}.part`)
+        );
+      }
+    }
+
+    await storeObject(key, await writeTemp(concatenate()), {
+      contentType,
+      metadata,
+      contentDisposition,
+    });
+    await fsp.rm(multipartPath(uploadId), { recursive: true, force: true });
+  }
+
+  async function abortMultipartUpload({ key, uploadId }) {
+    await findMultipartUpload(uploadId, key);
+    await fsp.rm(multipartPath(uploadId), { recursive: true, force: true });
+  }
+
+  // Resolves null when there is no such object
+  async function headObject(key) {
+    try {
+      const [stat, meta] = await Promise.all([
+        fsp.stat(resolveInside(objectsDir, key)),
+        fsp.readFile(resolveInside(metaDir, `${key}.json`), "utf8"),
+      ]);
+      return { size: stat.size, ...JSON.parse(meta) };
+    } catch (error) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  // The object's bytes, or just `range` ({ start, end }, inclusive) of them
+  async function getObject(key, { range } = {}) {
+    const chunks = [];
+    for await (const chunk of fs.createReadStream(
+      resolveInside(objectsDir, key),
+      range
+    )) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  // The base64 SHA-256 of the whole object, worked out as it was stored
+  async function checksumObject(key) {
+    return (await headObject(key))?.checksum;
+  }
+
+  // Used by the backend itself, to store what it derives from uploads
+  async function putObject({ key, body, contentType, metadata }) {
+    await storeObject(key, await writeTemp(Readable.from([body])), {
+      contentType,
+      metadata,
+    });
+  }
+
+  async function deleteObject(key) {
+    await fsp.rm(resolveInside(objectsDir, key), { force: true });
+    await fsp.rm(resolveInside(metaDir, `${key}.json`), { force: true });
+  }
+
+  async function getDownloadUrl({ key, disposition, expiresIn }) {
+    return signedUrl(
+      "GET",
+      `/storage/objects/${encodeKey(key)}`,
+      expiresIn,
+      disposition
+    );
+  }
+
+  function sendError(res, error) {
+    if (!(error instanceof StorageError)) {
+      console.error(`Local storage error:${error}`);
+    }
+    if (!res.headersSent) {
+      res.status(error.status || 500).json({
+        error: error.status ? error.message : "Storage request failed",
+      });
+    }
+  }
+
+  const router = express.Router();
+
+  // The equivalent of an S3 presigned POST: policy fields first, file last
+  router.post("/upload", (req, res) => {
+    const fields = {};
+    let receivedFile = false;
+
+    const form = busboy({ headers: req.headers, limits: { files: 1 } });
+    form.on("field", (name, value) => {
+      fields[name] = value;
+    });
+    form.on("file", async (name, stream) => {
+      receivedFile = true;
+      // Reported by the form's own error, below
+      stream.on("error", () => {});
+      let temp;
+      try {
+        const { key, size, checksum, expires, signature } = fields;
+        const contentType = fields["Content-Type"];
+        const contentDisposition = fields["Content-Disposition"];
+        const metadata = metadataFromFields(fields);
+        const signed = uploadFormSignature({
+          key,
+          contentType,
+          contentDisposition,
+          size: Number(size),
+          checksum,
+          metadata,
+          expires,
+        });
+        if (!verify(signed, signature)) {
+          throw new StorageError(
+            403,
+            "Invalid according to Policy: signature does not match"
+          );
+        }
+        checkExpiry(expires);
+
+        temp = await writeTemp(stream, { maxSize: Number(size) });
+        if (temp.size !== Number(size)) {
+          throw new StorageError(
+            403,
+            `Invalid according to Policy: body is ${temp.size} bytes, expected ${size}`
+          );
+        }
+        if (checksum && temp.checksum !== checksum) {
+          throw new StorageError(
+            400,
+            "The SHA-256 you specified did not match the calculated checksum"
+          );
+        }
+
+        await storeObject(key, temp, {
+          contentType,
+          contentDisposition,
+          metadata,
+        });
+        res.status(204).end();
+      } catch (error) {
+        stream.resume();
+        if (temp) await fsp.rm(temp.file, { force: true });
+        // Unless a broken form was already answered
+        if (!res.headersSent) sendError(res, error);
+      }
+    });
+    form.on("close", () => {
+      if (!receivedFile) {
+        sendError(res, new StorageError(400, "No file in upload form"));
+      }
+    });
+    // A malformed or cut-off body. The file being written, if any, fails with
+    // it and writeTemp deletes what it got.
+    const fail = (error) => {
+      req.unpipe(form);
+      sendError(
+        res,
+        new StorageError(400, `Malformed upload: ${error.message}`)
+      );
+    };
+    form.on("error", fail);
+    req.on("error", fail);
+    req.pipe(form);
+  });
+
+  router.put("/parts/:uploadId/:partNumber", async (req, res) => {
+    try {
+      checkSignedUrl(req);
+      const { uploadId } = req.params;
+      const partNumber = Number(req.params.partNumber);
+      if (!Number.isInteger(partNumber) || partNumber < 1) {
+        throw new StorageError(400, "Invalid part number");
+      }
+
+      try {
+        await fsp.access(multipartPath(uploadId, "upload.json"));
+      } catch {
+        throw new StorageError(404, "Multipart upload not found");
+      }
+
+      const temp = await writeTemp(req, { maxSize: MAX_PART_SIZE });
+      await fsp.rename(
+        temp.file,
+        multipartPath(uploadId, `${partNumber}.part`)
+      );
+      await fsp.writeFile(
+        multipartPath(uploadId, `${partNumber}.json`),
+        JSON.stringify({
+          PartNumber: partNumber,
+          ETag: temp.etag,
+          Size: temp.size,
+        })
+      );
+
+      res.set("ETag", temp.etag).end();
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.get("/objects/*key", async (req, res) => {
+    try {
+      checkSignedUrl(req);
+      const key = req.params.key.join("/");
+      const head = await headObject(key);
+      if (!head) {
+        throw new StorageError(404, "Object not found");
+      }
+
+      res.set("Content-Type", head.contentType);
+      // Like S3, the URL's disposition wins over the one stored with the object
+      const disposition =
+        req.query["response-content-disposition"] || head.contentDisposition;
+      if (disposition) res.set("Content-Disposition", disposition);
+      res.sendFile(resolveInside(objectsDir, key));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  return {
+    name: "local",
+    router,
+    getDownloadUrl,
+    createUpload,
+    createMultipartUpload,
+    getPartUrl,
+    listParts,
+    completeMultipartUpload,
+    abortMultipartUpload,
+    headObject,
+    checksumObject,
+    getObject,
+    putObject,
+    deleteObject,
+  };
+}
+
+module.exports = { createLocalStorage };
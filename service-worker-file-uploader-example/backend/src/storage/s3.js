@@ -0,0 +1,257 @@
+const crypto = require("crypto");
+const {
+  S3Client,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  HeadObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  DeleteObjectCommand,
+} = require("@aws-sdk/client-s3");
+const { getSignedUrl } = require("@aws-sdk/s3-request-presigner");
+const { createPresignedPost } = require("@aws-sdk/s3-presigned-post");
+
+// Storage on S3, or on an S3-compatible store (MinIO, R2, ...) when an
+// endpoint is given
+function createS3Storage({
+  bucket,
+  region,
+  endpoint,
+  forcePathStyle,
+  credentials,
+}) {
+  const s3Client = new S3Client({
+    region,
+    endpoint,
+    forcePathStyle,
+    credentials,
+  });
+
+  // A presigned POST form, so S3 itself enforces the exact declared size, the
+  // content type and the key prefix
+  async function createUpload({
+    key,
+    contentType,
+    size,
+    checksum,
+    metadata = {},
+    contentDisposition,
+    keyPrefix,
+    expiresIn,
+  }) {
+    const fields = { "Content-Type": contentType };
+    const conditions = [
+      ["content-length-range", size, size],
+      ["eq", "$Content-Type", contentType],
+      ["starts-with", "$key", keyPrefix],
+    ];
+    // Stored with the object and sent back when it's downloaded
+    if (contentDisposition) {
+      fields["Content-Disposition"] = contentDisposition;
+      conditions.push(["eq", "$Content-Disposition", contentDisposition]);
+    }
+    Object.entries(metadata).forEach(([name, value]) => {
+      fields[`x-amz-meta-${name}`] = value;
+      conditions.push(["eq", `$x-amz-meta-${name}`, value]);
+    });
+    // With a checksum, S3 rejects an upload whose body doesn't match it
+    if (checksum) {
+      fields["x-amz-checksum-sha256"] = checksum;
+      conditions.push(["eq", "$x-amz-checksum-sha256", checksum]);
+    }
+
+    return createPresignedPost(s3Client, {
+      Bucket: bucket,
+      Key: key,
+      Fields: fields,
+      Conditions: conditions,
+      Expires: expiresIn,
+    });
+  }
+
+  async function createMultipartUpload({
+    key,
+    contentType,
+    metadata,
+    contentDisposition,
+  }) {
+    const { UploadId } = await s3Client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        ContentType: contentType,
+        ContentDisposition: contentDisposition,
+        Metadata: metadata,
+      })
+    );
+    return UploadId;
+  }
+
+  function getPartUrl({ key, uploadId, partNumber, expiresIn }) {
+    const command = new UploadPartCommand({
+      Bucket: bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+    });
+    return getSignedUrl(s3Client, command, { expiresIn });
+  }
+
+  // Resolves null when the multipart upload no longer exists
+  async function listParts({ key, uploadId }) {
+    const parts = [];
+    let partNumberMarker;
+
+    try {
+      // ListParts returns at most 1000 parts per page
+      do {
+        const response = await s3Client.send(
+          new ListPartsCommand({
+            Bucket: bucket,
+            Key: key,
+            UploadId: uploadId,
+            PartNumberMarker: partNumberMarker,
+          })
+        );
+        (response.Parts || []).forEach(({ PartNumber, ETag, Size }) =>
+          parts.push({ PartNumber, ETag, Size })
+        );
+        partNumberMarker = response.IsTruncated
+          ? response.NextPartNumberMarker
+          : undefined;
+      } while (partNumberMarker);
+    } catch (error) {
+      if (error.name === "NoSuchUpload") return null;
+      throw error;
+    }
+
+    return parts;
+  }
+
+  async function completeMultipartUpload({ key, uploadId, parts }) {
+    await s3Client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: { Parts: parts },
+      })
+    );
+  }
+
+  async function abortMultipartUpload({ key, uploadId }) {
+    await s3Client.send(
+      new AbortMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: uploadId,
+      })
+    );
+  }
+
+  // The bucket stays private; objects are read through short-lived presigned
+  // GETs. S3 sends `disposition` back as the Content-Disposition header.
+  function getDownloadUrl({ key, disposition, expiresIn }) {
+    const command = new GetObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      ResponseContentDisposition: disposition,
+    });
+    return getSignedUrl(s3Client, command, { expiresIn });
+  }
+
+  // Resolves null when there is no such object
+  async function headObject(key) {
+    try {
+      const head = await s3Client.send(
+        new HeadObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          ChecksumMode: "ENABLED",
+        })
+      );
+      return {
+        size: head.ContentLength,
+        contentType: head.ContentType,
+        contentDisposition: head.ContentDisposition,
+        checksum: head.ChecksumSHA256,
+        etag: head.ETag,
+        metadata: head.Metadata,
+      };
+    } catch (error) {
+      if (error.name === "NotFound") return null;
+      throw error;
+    }
+  }
+
+  // The object's bytes, or just `range` ({ start, end }, inclusive) of them
+  async function getObject(key, { range } = {}) {
+    const response = await s3Client.send(
+      new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Range: range && `bytes=${range.start}-${range.end}`,
+      })
+    );
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  // The base64 SHA-256 of the whole object. S3 only has one for objects
+  // uploaded in a single request, so this reads the object through.
+  async function checksumObject(key) {
+    const response = await s3Client.send(
+      new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+      })
+    );
+    const sha256 = crypto.createHash("sha256");
+    for await (const chunk of response.Body) {
+      sha256.update(chunk);
+    }
+    return sha256.digest("base64");
+  }
+
+  // Used by the backend itself, to store what it derives from uploads
+  async function putObject({ key, body, contentType, metadata }) {
+    await s3Client.send(
+      new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        Metadata: metadata,
+      })
+    );
+  }
+
+  async function deleteObject(key) {
+    await s3Client.send(
+      new DeleteObjectCommand({
+        Bucket: bucket,
+        Key: key,
+      })
+    );
+  }
+
+  return {
+    name: "s3",
+    getDownloadUrl,
+    createUpload,
+    createMultipartUpload,
+    getPartUrl,
+    listParts,
+    completeMultipartUpload,
+    abortMultipartUpload,
+    headObject,
+    checksumObject,
+    getObject,
+    putObject,
+    deleteObject,
+  };
+}
+
+module.exports = { createS3Storage };
@@ -0,0 +1,51 @@
+const fs = require("fs");
+const path = require("path");
+
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, "..", "data");
+
+// A small JSON-file backed key/value collection. Good enough for a single
+// server process; every write rewrites the whole file.
+function createStore(name) {
+  const file = path.join(DATA_DIR, `${name}.json`);
+  // Without a prototype, so ids like "__proto__" or "constructor" are plain
+  // keys too
+  const records = Object.create(null);
+
+  try {
+    Object.assign(records, JSON.parse(fs.readFileSync(file, "utf8")));
+  } catch (error) {
+    if (error.code !== "ENOENT") {
+      console.error(`Error loading ${file}:${error}`);
+    }
+  }
+
+  function save() {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    // Write to a temp file first so a crash never leaves half a file behind
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(records, null, 2));
+    fs.renameSync(`${file}.tmp`, file);
+  }
+
+  return {
+    get(id) {
+      return records[id];
+    },
+    set(id, value) {
+      records[id] = value;
+      save();
+      return value;
+    },
+    update(id, changes) {
+      return this.set(id, { ...records[id], ...changes });
+    },
+    delete(id) {
+      delete records[id];
+      save();
+    },
+    values() {
+      return Object.values(records);
+    },
+  };
+}
+
+module.exports = { createStore };
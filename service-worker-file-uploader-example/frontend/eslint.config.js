@@ -25,4 +25,16 @@ export default tseslint.config(
       ],
     },
   },
+  {
+    files: ['src/serviceworker/**/*.ts'],
+    languageOptions: {
+      globals: globals.serviceworker,
+    },
+  },
+  {
+    files: ['src/workers/**/*.ts'],
+    languageOptions: {
+      globals: globals.worker,
+    },
+  },
 )
@@ -0,0 +1,685 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  X,
+  Upload,
+  Maximize2,
+  RotateCw,
+  WifiOff,
+  Pause,
+  Play,
+  Ban,
+  ChevronsUp,
+  Link,
+  Loader2,
+  FolderOpen,
+} from "lucide-react";
+import { RetryCountdown } from "@/components/retry-countdown";
+import { PreviewDialog } from "@/components/preview-dialog";
+import { findPreviewRenderer, type PreviewItem } from "@/components/previews";
+import { FileThumbnail } from "@/components/previews/file-thumbnail";
+import { ProcessingSettings } from "@/components/processing-settings";
+import {
+  useUploader,
+  type FileInfo,
+  type Uploader,
+  type UploaderOptions,
+} from "@/hooks/use-uploader";
+import { formatFileSize } from "@/lib/format";
+import {
+  filesFromClipboard,
+  filesFromDataTransfer,
+  filesFromInput,
+} from "@/lib/collect-files";
+import {
+  DEFAULT_PROCESSING_OPTIONS,
+  isImageProcessingSupported,
+} from "@/lib/image-processing";
+import { describeMedia } from "@/lib/media-metadata";
+import { describeTypes } from "@/lib/upload-policy";
+import type { ErrorCategory } from "@/serviceworker/messages";
+import { MAX_ATTEMPTS } from "@/serviceworker/retry";
+import { cn } from "@/lib/utils";
+
+const ERROR_CATEGORY_LABELS: Record<ErrorCategory, string> = {
+  network: "Network error",
+  server: "Server error",
+  throttled: "Rate limited",
+  expired: "Upload link expired",
+  integrity: "Verification failed",
+  client: "Request rejected",
+  policy: "Not allowed by upload policy",
+  quota: "Storage quota full, delete files from the gallery to make room",
+  auth: "Signed out, sign in to continue",
+};
+
+function toPreviewItem(fileInfo: FileInfo): PreviewItem {
+  return {
+    name: fileInfo.name,
+    type: fileInfo.type,
+    size: fileInfo.size,
+    src: fileInfo.previewUrl,
+    poster: fileInfo.posterUrl,
+    metadata: fileInfo.metadata,
+  };
+}
+
+// Previews come from the file on the page, so they open whatever the
+// upload is doing
+function isPreviewable(fileInfo: FileInfo) {
+  return !!findPreviewRenderer(fileInfo.type);
+}
+
+interface FileUploaderProps extends Omit<
+  UploaderOptions,
+  "processImages" | "processingOptions"
+> {
+  // Add images pasted anywhere on the page; turn it off while the uploader is
+  // hidden or another one should get them
+  listenForPaste?: boolean;
+  className?: string;
+}
+
+// A dropzone for files, folders and pasted images, with a card per file in
+// the upload queue. Render it only while a user is signed in.
+export function FileUploader({
+  listenForPaste = true,
+  className,
+  ...options
+}: FileUploaderProps) {
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  // The file shown in the preview dialog, which steps through every
+  // previewable file in the list
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement | null>(null);
+  const folderInput = useRef<HTMLInputElement | null>(null);
+
+  // Optional resizing and re-encoding of images before they're uploaded
+  const [processImages, setProcessImages] = useState<boolean>(false);
+  const [processingOptions, setProcessingOptions] = useState(
+    DEFAULT_PROCESSING_OPTIONS
+  );
+
+  const uploader = useUploader({
+    ...options,
+    processImages,
+    processingOptions,
+  });
+  const { files, policy, fileError, setFileError, addFiles, controlUpload } =
+    uploader;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      addFiles(filesFromInput(e.target.files));
+    }
+    // Picking the same files or folder again should still add them
+    e.target.value = "";
+  };
+
+  // Images pasted anywhere on the page are added like dropped files. The
+  // handler closes over the current policy and settings, so it's replaced
+  // after every render.
+  useEffect(() => {
+    if (!listenForPaste) return;
+
+    const handlePaste = (e: ClipboardEvent) => {
+      const pasted = e.clipboardData ? filesFromClipboard(e.clipboardData) : [];
+      if (pasted.length === 0) return;
+      e.preventDefault();
+      addFiles(pasted);
+    };
+    window.addEventListener("paste", handlePaste);
+    return () => window.removeEventListener("paste", handlePaste);
+  });
+
+  const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+
+    // Dropped folders are walked for the files inside them
+    filesFromDataTransfer(e.dataTransfer)
+      .then(addFiles)
+      .catch((error) => {
+        console.error("Error reading dropped files:", error);
+        setFileError("Couldn't read the dropped files");
+      });
+  };
+
+  const previewable = files.filter(isPreviewable);
+  const previewIndex = previewable.findIndex((f) => f.id === previewId);
+  const interruptedCount = files.filter((f) => f.interrupted).length;
+  const hasActiveUploads = files.some((f) =>
+    ["queued", "uploading", "retrying"].includes(f.status)
+  );
+  const hasPausedUploads = files.some((f) => f.status === "paused");
+
+  return (
+    <div
+      className={cn(
+        "w-full max-w-md flex flex-col items-center gap-5",
+        className
+      )}
+    >
+      <div className="grid w-full items-center gap-3">
+        <div className="grid w-full gap-1.5">
+          <div
+            className={`relative border-2 border-dashed rounded-lg p-6 flex flex-col items-center justify-center cursor-pointer transition-colors min-h-40
+          ${
+            isDragging
+              ? "border-primary bg-primary/5"
+              : "border-accent hover:border-primary/50 hover:bg-accent/5"
+          }`}
+            onDragEnter={handleDragEnter}
+            onDragLeave={handleDragLeave}
+            onDragOver={handleDragOver}
+            onDrop={handleDrop}
+            onClick={() => fileInput.current?.click()}
+          >
+            <input
+              ref={fileInput}
+              onChange={handleFileChange}
+              name="file"
+              type="file"
+              multiple
+              accept={policy?.allowedTypes.join(",")}
+              className="sr-only"
+            />
+            {/* React doesn't know the webkitdirectory attribute */}
+            <input
+              ref={(input) => {
+                folderInput.current = input;
+                input?.setAttribute("webkitdirectory", "");
+              }}
+              onChange={handleFileChange}
+              name="folder"
+              type="file"
+              className="sr-only"
+            />
+
+            <Upload size={20} className="text-muted-foreground mb-2" />
+            <p className="text-base font-medium mb-1">Drag & Drop files here</p>
+            <p className="text-sm text-muted-foreground mb-2">
+              or click to browse{listenForPaste && ", or paste an image"}
+            </p>
+            <button
+              onClick={(e) => {
+                e.stopPropagation(); // Don't open the file picker too
+                folderInput.current?.click();
+              }}
+              className="text-xs text-primary flex items-center gap-1 mb-2"
+            >
+              <FolderOpen size={12} />
+              Choose a folder
+            </button>
+            <p className="text-xs text-muted-foreground text-center">
+              {policy
+                ? `Supports: ${describeTypes(policy.allowedTypes)} (Max ${formatFileSize(policy.maxFileSize)})`
+                : "Loading upload policy..."}
+            </p>
+          </div>
+
+          {fileError && (
+            <p className="text-sm text-red-500 mt-1">{fileError}</p>
+          )}
+
+          {/* Hidden when the policy accepts none of the output formats */}
+          {isImageProcessingSupported && uploader.outputFormats.length > 0 && (
+            <ProcessingSettings
+              enabled={processImages}
+              options={processingOptions}
+              formats={uploader.outputFormats}
+              onEnabledChange={setProcessImages}
+              onOptionsChange={setProcessingOptions}
+            />
+          )}
+        </div>
+      </div>
+
+      {files.length > 0 && (
+        <div className="border border-accent rounded-md w-full p-4">
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <h2 className="font-semibold">Selected Files ({files.length})</h2>
+            <div className="flex items-center gap-3 text-xs">
+              {hasActiveUploads && (
+                <button
+                  onClick={() => controlUpload("pause")}
+                  className="text-primary flex items-center gap-1"
+                >
+                  <Pause size={12} />
+                  Pause all
+                </button>
+              )}
+              {hasPausedUploads && (
+                <button
+                  onClick={() => controlUpload("resume")}
+                  className="text-primary flex items-center gap-1"
+                >
+                  <Play size={12} />
+                  Resume all
+                </button>
+              )}
+              {(hasActiveUploads || hasPausedUploads) && (
+                <button
+                  onClick={() => controlUpload("cancel")}
+                  className="text-red-500 flex items-center gap-1"
+                >
+                  <Ban size={12} />
+                  Cancel all
+                </button>
+              )}
+            </div>
+          </div>
+          {interruptedCount > 0 && (
+            <div className="flex items-center justify-between gap-2 border border-amber-400/50 bg-amber-400/10 rounded p-2 mb-3 text-xs">
+              <span>
+                {interruptedCount === 1
+                  ? "1 upload was interrupted"
+                  : `${interruptedCount} uploads were interrupted`}
+              </span>
+              <button
+                onClick={uploader.resumeInterrupted}
+                className="text-primary font-medium flex items-center gap-1"
+              >
+                <RotateCw size={12} />
+                Resume all
+              </button>
+            </div>
+          )}
+          <div className="space-y-3">
+            {files.map((fileInfo) => (
+              <FileCard
+                key={fileInfo.id}
+                fileInfo={fileInfo}
+                uploader={uploader}
+                onOpen={() => setPreviewId(fileInfo.id)}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Preview Dialog Modal */}
+      <PreviewDialog
+        items={previewable.map(toPreviewItem)}
+        index={previewIndex === -1 ? null : previewIndex}
+        onNavigate={(index) => setPreviewId(previewable[index].id)}
+        onClose={() => setPreviewId(null)}
+      />
+    </div>
+  );
+}
+
+interface FileCardProps {
+  fileInfo: FileInfo;
+  uploader: Uploader;
+  onOpen: () => void;
+}
+
+function FileCard({ fileInfo, uploader, onOpen }: FileCardProps) {
+  // Buttons on the card shouldn't open the preview too
+  const handle =
+    (action: () => void) =>
+    (e: React.MouseEvent): void => {
+      e.stopPropagation();
+      action();
+    };
+
+  const canOpen = isPreviewable(fileInfo);
+  // Why a version of an optimized image can't be uploaded, if it can't
+  const optimizedRejection =
+    fileInfo.processed && uploader.disallowedReason(fileInfo.processed.file);
+  const originalRejection = uploader.disallowedReason(fileInfo.file);
+
+  return (
+    <div
+      className={`flex border border-accent/50 rounded p-2 relative
+    ${canOpen ? "cursor-pointer hover:bg-accent/5" : ""}`}
+      onClick={() => (canOpen ? onOpen() : null)}
+    >
+      <button
+        onClick={handle(() => uploader.removeFile(fileInfo.id))}
+        className="absolute right-2 top-2 bg-background/80 rounded-full p-1 hover:bg-accent z-10"
+        aria-label="Remove file"
+      >
+        <X size={16} />
+      </button>
+
+      <div className="w-24 h-24 flex items-center justify-center mr-3 flex-shrink-0 bg-accent/10 rounded relative group">
+        <FileThumbnail
+          item={toPreviewItem(fileInfo)}
+          className="max-w-full max-h-full object-contain rounded"
+        />
+        {canOpen && (
+          <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity rounded">
+            <Maximize2 size={20} className="text-white" />
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <p className="font-medium text-sm truncate" title={fileInfo.name}>
+          {fileInfo.name}
+        </p>
+        {fileInfo.relativePath && (
+          <p
+            className="text-xs text-muted-foreground truncate"
+            title={fileInfo.relativePath}
+          >
+            in {fileInfo.relativePath.split("/").slice(0, -1).join("/")}
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {formatFileSize(fileInfo.size)}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {fileInfo.type.split("/")[1].toUpperCase()}
+        </p>
+        {describeMedia(fileInfo.metadata) && (
+          <p className="text-xs text-muted-foreground">
+            {describeMedia(fileInfo.metadata)}
+          </p>
+        )}
+
+        {/* Upload status section */}
+        <div className="mt-1">
+          {fileInfo.status === "processing" && (
+            <p className="text-xs text-muted-foreground">Optimizing image...</p>
+          )}
+
+          {fileInfo.status === "processed" && (
+            <div>
+              <p className="text-xs text-muted-foreground">
+                {fileInfo.processed
+                  ? `Optimized: ${formatFileSize(fileInfo.processed.file.size)}, ${fileInfo.processed.width}×${fileInfo.processed.height} ${fileInfo.processed.file.type.split("/")[1].toUpperCase()}`
+                  : "Couldn't optimize this image"}
+              </p>
+              <div className="flex gap-3 mt-1">
+                {fileInfo.processed && (
+                  <button
+                    onClick={handle(() =>
+                      uploader.chooseVersion(fileInfo, "processed")
+                    )}
+                    disabled={!!optimizedRejection}
+                    title={optimizedRejection ?? undefined}
+                    className="text-xs text-primary flex items-center gap-1 disabled:opacity-50"
+                  >
+                    <Upload size={12} />
+                    Upload optimized
+                  </button>
+                )}
+                <button
+                  onClick={handle(() =>
+                    uploader.chooseVersion(fileInfo, "original")
+                  )}
+                  disabled={!!originalRejection}
+                  title={originalRejection ?? undefined}
+                  className="text-xs text-primary flex items-center gap-1 disabled:opacity-50"
+                >
+                  <Upload size={12} />
+                  Upload original
+                </button>
+              </div>
+              {optimizedRejection && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Optimized version {optimizedRejection}
+                </p>
+              )}
+              {originalRejection && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Original {originalRejection}
+                </p>
+              )}
+            </div>
+          )}
+
+          {fileInfo.status === "hashing" && (
+            <div className="w-full bg-accent/30 rounded-full h-2 mt-1">
+              <div
+                className="bg-muted-foreground h-2 rounded-full transition-all"
+                style={{ width: `${fileInfo.progress}%` }}
+              ></div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Computing checksum: {fileInfo.progress}%
+              </p>
+            </div>
+          )}
+
+          {fileInfo.status === "uploading" && (
+            <div className="w-full bg-accent/30 rounded-full h-2 mt-1">
+              <div
+                className="bg-primary h-2 rounded-full transition-all"
+                style={{ width: `${fileInfo.progress}%` }}
+              ></div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {fileInfo.progress === 100
+                  ? "Verifying upload..."
+                  : `Uploading: ${fileInfo.progress}%`}
+                {fileInfo.attempt &&
+                  fileInfo.attempt > 1 &&
+                  ` (attempt ${fileInfo.attempt} of ${MAX_ATTEMPTS})`}
+              </p>
+              <div className="flex gap-3 mt-1">
+                <button
+                  onClick={handle(() =>
+                    uploader.controlUpload("pause", fileInfo.id)
+                  )}
+                  className="text-xs text-primary flex items-center gap-1"
+                >
+                  <Pause size={12} />
+                  Pause
+                </button>
+                <button
+                  onClick={handle(() =>
+                    uploader.controlUpload("cancel", fileInfo.id)
+                  )}
+                  className="text-xs text-red-500 flex items-center gap-1"
+                >
+                  <Ban size={12} />
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {fileInfo.status === "queued" && (
+            <div>
+              <p className="text-xs text-muted-foreground">Waiting to upload</p>
+              <div className="flex gap-3 mt-1">
+                <button
+                  onClick={handle(() => uploader.prioritizeUpload(fileInfo.id))}
+                  className="text-xs text-primary flex items-center gap-1"
+                >
+                  <ChevronsUp size={12} />
+                  Upload next
+                </button>
+                <button
+                  onClick={handle(() =>
+                    uploader.controlUpload("pause", fileInfo.id)
+                  )}
+                  className="text-xs text-primary flex items-center gap-1"
+                >
+                  <Pause size={12} />
+                  Pause
+                </button>
+              </div>
+            </div>
+          )}
+
+          {fileInfo.status === "paused" && (
+            <div>
+              <p className="text-xs text-amber-500 font-medium">
+                Paused at {fileInfo.progress}%
+              </p>
+              <div className="flex gap-3 mt-1">
+                <button
+                  onClick={handle(() =>
+                    uploader.controlUpload("resume", fileInfo.id)
+                  )}
+                  className="text-xs text-primary flex items-center gap-1"
+                >
+                  <Play size={12} />
+                  Resume
+                </button>
+                <button
+                  onClick={handle(() =>
+                    uploader.controlUpload("cancel", fileInfo.id)
+                  )}
+                  className="text-xs text-red-500 flex items-center gap-1"
+                >
+                  <Ban size={12} />
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {fileInfo.status === "cancelled" && (
+            <div>
+              <p className="text-xs text-muted-foreground font-medium">
+                Upload cancelled
+              </p>
+              <button
+                onClick={handle(() => uploader.retryUpload(fileInfo.id))}
+                className="text-xs text-primary flex items-center gap-1 mt-1"
+              >
+                <RotateCw size={12} />
+                Retry upload
+              </button>
+            </div>
+          )}
+
+          {fileInfo.interrupted && (
+            <div>
+              <p className="text-xs text-amber-500 font-medium">
+                Upload interrupted
+              </p>
+              <button
+                onClick={handle(() => uploader.retryUpload(fileInfo.id))}
+                className="text-xs text-primary flex items-center gap-1 mt-1"
+              >
+                <RotateCw size={12} />
+                Resume upload
+              </button>
+            </div>
+          )}
+
+          {fileInfo.status === "queued-offline" && (
+            <p className="text-xs text-amber-500 font-medium flex items-center gap-1">
+              <WifiOff size={12} />
+              Queued (offline), uploads when you're back online
+            </p>
+          )}
+
+          {(fileInfo.status === "success" || fileInfo.status === "ready") && (
+            <div className="flex items-center gap-3">
+              <p className="text-xs text-green-500 font-medium">
+                {fileInfo.alreadyUploaded
+                  ? "Already uploaded"
+                  : fileInfo.status === "ready"
+                    ? "Ready"
+                    : "Upload complete"}
+              </p>
+              <button
+                onClick={handle(() => uploader.copyLink(fileInfo))}
+                className="text-xs text-primary flex items-center gap-1"
+              >
+                <Link size={12} />
+                Copy link
+              </button>
+            </div>
+          )}
+
+          {fileInfo.status === "postprocessing" && (
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <Loader2 size={12} className="animate-spin" />
+              Uploaded, processing on the server...
+            </p>
+          )}
+
+          {fileInfo.status === "rejected" && (
+            <p className="text-xs text-red-500 font-medium">
+              Rejected by the server
+              {fileInfo.serverMessage && `: ${fileInfo.serverMessage}`}
+            </p>
+          )}
+
+          {fileInfo.status === "retrying" && (
+            <div>
+              <p className="text-xs text-amber-500 font-medium">
+                {fileInfo.errorCategory &&
+                  ERROR_CATEGORY_LABELS[fileInfo.errorCategory]}
+                , retrying{" "}
+                {fileInfo.nextAttemptAt && (
+                  <RetryCountdown until={fileInfo.nextAttemptAt} />
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Attempt {fileInfo.attempt} of {MAX_ATTEMPTS} failed
+              </p>
+              <div className="flex gap-3 mt-1">
+                <button
+                  onClick={handle(() =>
+                    uploader.controlUpload("pause", fileInfo.id)
+                  )}
+                  className="text-xs text-primary flex items-center gap-1"
+                >
+                  <Pause size={12} />
+                  Pause
+                </button>
+                <button
+                  onClick={handle(() =>
+                    uploader.controlUpload("cancel", fileInfo.id)
+                  )}
+                  className="text-xs text-red-500 flex items-center gap-1"
+                >
+                  <Ban size={12} />
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {fileInfo.status === "error" && (
+            <div>
+              <p className="text-xs text-red-500 font-medium">
+                Upload failed: {fileInfo.errorMessage}
+              </p>
+              {fileInfo.errorCategory && (
+                <p className="text-xs text-muted-foreground">
+                  {ERROR_CATEGORY_LABELS[fileInfo.errorCategory]}
+                  {fileInfo.attempt &&
+                    fileInfo.attempt > 1 &&
+                    ` after ${fileInfo.attempt} attempts`}
+                </p>
+              )}
+              <button
+                onClick={handle(() => uploader.retryUpload(fileInfo.id))}
+                className="text-xs text-primary flex items-center gap-1 mt-1"
+              >
+                <RotateCw size={12} />
+                Retry upload
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { signIn, type Session } from "@/lib/auth";
+
+interface LoginFormProps {
+  apiUrl: string;
+  onSignedIn: (session: Session) => void;
+}
+
+// Sign in, or create an account with the same form
+export function LoginForm({ apiUrl, onSignedIn }: LoginFormProps) {
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [username, setUsername] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
+  const [error, setError] = useState<string>("");
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsSubmitting(true);
+    try {
+      onSignedIn(await signIn(apiUrl, mode, { username, password }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Sign in failed");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="border border-accent rounded-md max-w-sm w-full p-4 grid gap-3"
+    >
+      <h2 className="font-semibold">
+        {mode === "login" ? "Sign in to upload" : "Create an account"}
+      </h2>
+
+      <div className="grid gap-1.5">
+        <Label htmlFor="username">Username</Label>
+        <Input
+          id="username"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          required
+        />
+      </div>
+
+      <div className="grid gap-1.5">
+        <Label htmlFor="password">Password</Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      <Button type="submit" disabled={isSubmitting}>
+        {isSubmitting && <Loader2 className="animate-spin" />}
+        {mode === "login" ? "Sign in" : "Create account"}
+      </Button>
+
+      <button
+        type="button"
+        onClick={() => setMode(mode === "login" ? "register" : "login")}
+        className="text-xs text-primary"
+      >
+        {mode === "login"
+          ? "No account yet? Create one"
+          : "Already have an account? Sign in"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,19 @@
+import { WifiOff } from "lucide-react";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+
+// Shown in the header while offline. The app shell keeps working from the
+// service worker's cache and uploads wait for the connection to come back.
+export function OfflineIndicator() {
+  const isOnline = useOnlineStatus();
+  if (isOnline) return null;
+
+  return (
+    <span
+      className="flex items-center gap-1 rounded-md border border-amber-500/50 px-2 py-1 text-xs text-amber-500"
+      title="Uploads resume when you're back online"
+    >
+      <WifiOff size={12} />
+      Offline
+    </span>
+  );
+}
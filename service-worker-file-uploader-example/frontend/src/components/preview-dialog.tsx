@@ -0,0 +1,117 @@
+import { ChevronLeft, ChevronRight, File as FileIcon, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { findPreviewRenderer, type PreviewItem } from "@/components/previews";
+import { formatFileSize } from "@/lib/format";
+import { describeMedia } from "@/lib/media-metadata";
+
+interface PreviewDialogProps {
+  // Everything the dialog can step through, in the order it's listed
+  items: PreviewItem[];
+  // The item shown, or null when the dialog is closed
+  index: number | null;
+  onNavigate: (index: number) => void;
+  onClose: () => void;
+  // Extra buttons for the footer, e.g. delete in the gallery
+  actions?: React.ReactNode;
+}
+
+export function PreviewDialog({
+  items,
+  index,
+  onNavigate,
+  onClose,
+  actions,
+}: PreviewDialogProps) {
+  const item = index !== null ? items[index] : undefined;
+  const renderer = item && findPreviewRenderer(item.type);
+  const hasPrevious = index !== null && index > 0;
+  const hasNext = index !== null && index < items.length - 1;
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Arrow keys seek in players and move the caret in inputs
+    if (
+      e.target instanceof HTMLMediaElement ||
+      e.target instanceof HTMLInputElement
+    ) {
+      return;
+    }
+    if (e.key === "ArrowLeft" && hasPrevious) {
+      e.preventDefault();
+      onNavigate(index - 1);
+    } else if (e.key === "ArrowRight" && hasNext) {
+      e.preventDefault();
+      onNavigate(index + 1);
+    }
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent
+        className="sm:max-w-3xl md:max-w-4xl max-h-screen overflow-hidden p-1 sm:p-2"
+        onKeyDown={handleKeyDown}
+      >
+        <DialogClose className="absolute right-2 top-2 border rounded-sm p-1 bg-background/80 z-10 hover:bg-background">
+          <X className="h-4 w-4" />
+        </DialogClose>
+
+        <div className="w-full h-full flex flex-col">
+          <DialogTitle className="px-3 py-2 pr-10 text-base font-medium truncate">
+            {item?.name}
+          </DialogTitle>
+
+          <div className="relative h-[70vh] flex items-center justify-center p-2 w-full bg-black/5 rounded-md overflow-hidden">
+            {/* Keyed so zoom, playback and loaded text start over per item */}
+            {item && renderer ? (
+              <renderer.Preview key={index} item={item} />
+            ) : (
+              <div className="flex flex-col items-center gap-2 text-sm text-muted-foreground">
+                <FileIcon size={48} />
+                No preview available
+              </div>
+            )}
+
+            {hasPrevious && (
+              <button
+                onClick={() => onNavigate(index - 1)}
+                className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full bg-background/80 p-1 hover:bg-background"
+                aria-label="Previous file"
+              >
+                <ChevronLeft size={20} />
+              </button>
+            )}
+            {hasNext && (
+              <button
+                onClick={() => onNavigate(index + 1)}
+                className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full bg-background/80 p-1 hover:bg-background"
+                aria-label="Next file"
+              >
+                <ChevronRight size={20} />
+              </button>
+            )}
+          </div>
+
+          <div className="px-3 py-2 text-xs text-muted-foreground flex items-center justify-between gap-2">
+            <span>
+              {item
+                ? [
+                    items.length > 1 && `${index! + 1} of ${items.length}`,
+                    formatFileSize(item.size),
+                    item.type.split("/")[1]?.toUpperCase(),
+                    describeMedia(item.metadata),
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")
+                : ""}
+            </span>
+            {actions}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
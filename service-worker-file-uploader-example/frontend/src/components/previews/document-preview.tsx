@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import type { PreviewProps } from "@/components/previews/registry";
+import { formatFileSize } from "@/lib/format";
+
+// Shown with the browser's own PDF viewer
+export function PdfPreview({ item }: PreviewProps) {
+  return (
+    <iframe
+      src={item.src}
+      title={item.name}
+      className="w-full h-full rounded bg-white"
+    />
+  );
+}
+
+const MAX_TEXT_BYTES = 256 * 1024; // more than that isn't worth reading here
+
+// The start of a text file, without downloading all of it
+async function readText(src: string) {
+  const response = await fetch(src);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to load the file: ${response.statusText}`);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size <= MAX_TEXT_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  const truncated = size > MAX_TEXT_BYTES;
+  if (truncated) reader.cancel();
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  // A character cut off at the end decodes to U+FFFD, which is fine here
+  const text = new TextDecoder().decode(bytes.subarray(0, MAX_TEXT_BYTES));
+  return { text, truncated };
+}
+
+export function TextPreview({ item }: PreviewProps) {
+  const [text, setText] = useState<string | null>(null);
+  const [truncated, setTruncated] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    if (!item.src) return;
+    let cancelled = false;
+    readText(item.src)
+      .then((result) => {
+        if (cancelled) return;
+        setText(result.text);
+        setTruncated(result.truncated);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error(`Error reading ${item.name}:`, error);
+        setError(error instanceof Error ? error.message : "Failed to load");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [item.src, item.name]);
+
+  if (error) return <p className="text-sm text-red-500">{error}</p>;
+  if (text === null) {
+    return <Loader2 size={20} className="animate-spin text-muted-foreground" />;
+  }
+
+  return (
+    <div className="w-full h-full overflow-auto rounded bg-background">
+      <pre className="p-3 text-xs whitespace-pre-wrap break-words font-mono">
+        {text}
+      </pre>
+      {truncated && (
+        <p className="px-3 pb-3 text-xs text-muted-foreground">
+          Showing the first {formatFileSize(MAX_TEXT_BYTES)}. Download the file
+          to see all of it.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { File as FileIcon } from "lucide-react";
+import { findPreviewRenderer, type PreviewItem } from "@/components/previews";
+
+interface FileThumbnailProps {
+  item: PreviewItem;
+  // For the thumbnail drawn from the file; the icon is always centered
+  className?: string;
+}
+
+// The registered renderer's thumbnail once there's something to draw it from,
+// otherwise its icon
+export function FileThumbnail({ item, className }: FileThumbnailProps) {
+  const renderer = findPreviewRenderer(item.type);
+  if (renderer?.Thumbnail && (item.src || item.poster)) {
+    return <renderer.Thumbnail item={item} className={className} />;
+  }
+
+  const Icon = renderer?.icon ?? FileIcon;
+  return (
+    <div className="w-full h-full flex items-center justify-center">
+      <Icon size={32} className="text-muted-foreground" />
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { RotateCcw, ZoomIn, ZoomOut } from "lucide-react";
+import type {
+  PreviewProps,
+  ThumbnailProps,
+} from "@/components/previews/registry";
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.5; // per button press; the wheel zooms in finer steps
+
+// Fits the dialog at first. Zoom with the wheel, the buttons or a double
+// click, and drag to pan once zoomed in.
+export function ImagePreview({ item }: PreviewProps) {
+  const [zoom, setZoom] = useState<number>(MIN_ZOOM);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  // Where the pointer went down, relative to the offset at the time
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(
+    null
+  );
+
+  const zoomTo = (next: number) => {
+    const clamped = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, next));
+    setZoom(clamped);
+    // Back at full view there's nothing to pan
+    if (clamped === MIN_ZOOM) setOffset({ x: 0, y: 0 });
+  };
+
+  const startDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (zoom === MIN_ZOOM || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart({ x: e.clientX - offset.x, y: e.clientY - offset.y });
+  };
+
+  const drag = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    setOffset({ x: e.clientX - dragStart.x, y: e.clientY - dragStart.y });
+  };
+
+  return (
+    <div
+      className={`relative w-full h-full overflow-hidden flex items-center justify-center touch-none select-none ${
+        zoom === MIN_ZOOM
+          ? "cursor-zoom-in"
+          : dragStart
+            ? "cursor-grabbing"
+            : "cursor-grab"
+      }`}
+      onWheel={(e) => zoomTo(zoom * (e.deltaY < 0 ? 1.1 : 1 / 1.1))}
+      onDoubleClick={() => zoomTo(zoom === MIN_ZOOM ? 2 : MIN_ZOOM)}
+      onPointerDown={startDrag}
+      onPointerMove={drag}
+      onPointerUp={() => setDragStart(null)}
+      onPointerCancel={() => setDragStart(null)}
+    >
+      <img
+        src={item.src}
+        alt={item.name}
+        draggable={false}
+        className="max-w-full max-h-full object-contain"
+        style={{
+          transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})`,
+          transition: dragStart ? "none" : "transform 0.1s ease-out",
+        }}
+      />
+
+      <div
+        className="absolute bottom-2 right-2 flex items-center gap-1 rounded-md bg-background/80 p-1 text-xs"
+        // Double clicking the buttons shouldn't zoom the image as well
+        onDoubleClick={(e) => e.stopPropagation()}
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={() => zoomTo(zoom / ZOOM_STEP)}
+          disabled={zoom === MIN_ZOOM}
+          className="rounded p-1 hover:bg-accent disabled:opacity-50"
+          aria-label="Zoom out"
+        >
+          <ZoomOut size={16} />
+        </button>
+        <span className="w-10 text-center tabular-nums">
+          {Math.round(zoom * 100)}%
+        </span>
+        <button
+          onClick={() => zoomTo(zoom * ZOOM_STEP)}
+          disabled={zoom === MAX_ZOOM}
+          className="rounded p-1 hover:bg-accent disabled:opacity-50"
+          aria-label="Zoom in"
+        >
+          <ZoomIn size={16} />
+        </button>
+        <button
+          onClick={() => zoomTo(MIN_ZOOM)}
+          disabled={zoom === MIN_ZOOM}
+          className="rounded p-1 hover:bg-accent disabled:opacity-50"
+          aria-label="Reset zoom"
+        >
+          <RotateCcw size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function ImageThumbnail({ item, className }: ThumbnailProps) {
+  return (
+    <img src={item.src} alt={item.name} loading="lazy" className={className} />
+  );
+}
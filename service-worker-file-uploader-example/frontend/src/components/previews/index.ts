@@ -0,0 +1,41 @@
+import { FileText, Music } from "lucide-react";
+import {
+  ImagePreview,
+  ImageThumbnail,
+} from "@/components/previews/image-preview";
+import {
+  AudioPreview,
+  VideoPreview,
+  VideoThumbnail,
+} from "@/components/previews/media-preview";
+import {
+  PdfPreview,
+  TextPreview,
+} from "@/components/previews/document-preview";
+import { registerPreviewRenderer } from "@/components/previews/registry";
+
+// The built-in renderers. Types without one can still be uploaded and
+// downloaded, they just show an icon.
+registerPreviewRenderer("image/*", {
+  Preview: ImagePreview,
+  Thumbnail: ImageThumbnail,
+});
+registerPreviewRenderer("video/*", {
+  Preview: VideoPreview,
+  Thumbnail: VideoThumbnail,
+});
+registerPreviewRenderer("audio/*", { Preview: AudioPreview, icon: Music });
+registerPreviewRenderer("application/pdf", {
+  Preview: PdfPreview,
+  icon: FileText,
+});
+registerPreviewRenderer("text/*", { Preview: TextPreview, icon: FileText });
+
+export {
+  findPreviewRenderer,
+  registerPreviewRenderer,
+  type PreviewItem,
+  type PreviewProps,
+  type PreviewRenderer,
+  type ThumbnailProps,
+} from "@/components/previews/registry";
@@ -0,0 +1,46 @@
+import { Music } from "lucide-react";
+import type {
+  PreviewProps,
+  ThumbnailProps,
+} from "@/components/previews/registry";
+import { formatDuration } from "@/lib/format";
+
+export function VideoPreview({ item }: PreviewProps) {
+  return (
+    <video
+      src={item.src}
+      poster={item.poster}
+      controls
+      autoPlay
+      className="max-w-full max-h-full"
+    />
+  );
+}
+
+// The poster frame when there is one, with the duration in the corner
+export function VideoThumbnail({ item, className }: ThumbnailProps) {
+  const duration = item.metadata?.duration;
+  return (
+    <>
+      {item.poster ? (
+        <img src={item.poster} alt={item.name} className={className} />
+      ) : (
+        <video src={item.src} preload="metadata" muted className={className} />
+      )}
+      {duration !== undefined && Number.isFinite(duration) && (
+        <span className="absolute bottom-1 right-1 rounded bg-black/70 px-1 text-[10px] text-white">
+          {formatDuration(duration)}
+        </span>
+      )}
+    </>
+  );
+}
+
+export function AudioPreview({ item }: PreviewProps) {
+  return (
+    <div className="flex flex-col items-center gap-4 w-full max-w-md">
+      <Music size={64} className="text-muted-foreground" />
+      <audio src={item.src} controls autoPlay className="w-full" />
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import type { ComponentType } from "react";
+import type { LucideIcon } from "lucide-react";
+import type { MediaMetadata } from "@/serviceworker/messages";
+
+// What a preview shows: a file that's still on the page or an upload served
+// from storage
+export interface PreviewItem {
+  name: string;
+  type: string;
+  size: number;
+  // Undefined while a presigned URL is being fetched
+  src?: string;
+  poster?: string;
+  metadata?: MediaMetadata;
+}
+
+export interface PreviewProps {
+  item: PreviewItem;
+}
+
+export interface ThumbnailProps {
+  item: PreviewItem;
+  className?: string;
+}
+
+// How one kind of file is shown: full size in the preview dialog, and small on
+// file cards and gallery tiles
+export interface PreviewRenderer {
+  Preview: ComponentType<PreviewProps>;
+  // Drawn from the file itself, so it needs src. Without one, cards and tiles
+  // show the icon.
+  Thumbnail?: ComponentType<ThumbnailProps>;
+  icon?: LucideIcon;
+}
+
+const renderers = new Map<string, PreviewRenderer>();
+
+// Register a renderer for one type ("application/pdf") or a whole family of
+// them ("image/*"). Registering a type again replaces its renderer.
+export function registerPreviewRenderer(
+  type: string,
+  renderer: PreviewRenderer
+) {
+  renderers.set(type, renderer);
+}
+
+// The renderer for an exact type, else for its family. Undefined when files
+// of this type can't be previewed.
+export function findPreviewRenderer(type: string): PreviewRenderer | undefined {
+  return renderers.get(type) ?? renderers.get(`${type.split("/")[0]}/*`);
+}
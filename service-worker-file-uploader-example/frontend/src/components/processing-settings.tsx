@@ -0,0 +1,109 @@
+import { Label } from "@/components/ui/label";
+import type { OutputFormat, ProcessingOptions } from "@/lib/image-processing";
+
+const MAX_DIMENSIONS = [1024, 2048, 4096];
+
+const FORMAT_LABELS: Record<OutputFormat, string> = {
+  "image/webp": "WebP",
+  "image/jpeg": "JPEG",
+};
+
+const selectClassName =
+  "border-input dark:bg-input/30 h-8 rounded-md border bg-transparent px-2 text-sm";
+
+interface ProcessingSettingsProps {
+  enabled: boolean;
+  options: ProcessingOptions;
+  // The formats the upload policy accepts, which are the only ones offered
+  formats: OutputFormat[];
+  onEnabledChange: (enabled: boolean) => void;
+  onOptionsChange: (options: ProcessingOptions) => void;
+}
+
+// Settings for resizing and re-encoding images before they're uploaded
+export function ProcessingSettings({
+  enabled,
+  options,
+  formats,
+  onEnabledChange,
+  onOptionsChange,
+}: ProcessingSettingsProps) {
+  return (
+    <div className="border border-accent rounded-md p-3 text-sm grid gap-2">
+      <Label className="flex items-center gap-2 font-normal">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+        />
+        Optimize images before uploading
+      </Label>
+
+      {enabled && (
+        <div className="flex flex-wrap items-center gap-3">
+          <Label className="font-normal">
+            Max size
+            <select
+              className={selectClassName}
+              value={options.maxDimension}
+              onChange={(e) =>
+                onOptionsChange({
+                  ...options,
+                  maxDimension: Number(e.target.value),
+                })
+              }
+            >
+              {MAX_DIMENSIONS.map((dimension) => (
+                <option key={dimension} value={dimension}>
+                  {dimension}px
+                </option>
+              ))}
+            </select>
+          </Label>
+
+          <Label className="font-normal">
+            Format
+            <select
+              className={selectClassName}
+              value={
+                formats.includes(options.format) ? options.format : formats[0]
+              }
+              onChange={(e) =>
+                onOptionsChange({
+                  ...options,
+                  format: e.target.value as OutputFormat,
+                })
+              }
+            >
+              {formats.map((format) => (
+                <option key={format} value={format}>
+                  {FORMAT_LABELS[format]}
+                </option>
+              ))}
+            </select>
+          </Label>
+
+          <Label className="font-normal">
+            Quality
+            <input
+              type="range"
+              min={0.5}
+              max={1}
+              step={0.05}
+              value={options.quality}
+              onChange={(e) =>
+                onOptionsChange({
+                  ...options,
+                  quality: Number(e.target.value),
+                })
+              }
+            />
+            <span className="w-8 text-muted-foreground">
+              {Math.round(options.quality * 100)}
+            </span>
+          </Label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import { fetchQuota, type QuotaUsage } from "@/lib/uploads-api";
+import { formatFileSize } from "@/lib/format";
+
+interface QuotaMeterProps {
+  apiUrl: string;
+  // Bumped by the parent whenever uploads or deletes change the usage
+  refreshKey: number;
+}
+
+// How much of the user's storage quota is used, by bytes and by file count
+export function QuotaMeter({ apiUrl, refreshKey }: QuotaMeterProps) {
+  const [usage, setUsage] = useState<QuotaUsage | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchQuota(apiUrl)
+      .then((quota) => {
+        if (!cancelled) setUsage(quota);
+      })
+      .catch((error) => console.error("Error loading quota:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [apiUrl, refreshKey]);
+
+  if (!usage) return null;
+
+  const percent = Math.min(
+    100,
+    Math.max(
+      usage.bytes.used / usage.bytes.limit,
+      usage.objects.used / usage.objects.limit
+    ) * 100
+  );
+
+  return (
+    <div className="w-full max-w-md text-xs text-muted-foreground">
+      <div className="flex justify-between mb-1">
+        <span>
+          {formatFileSize(usage.bytes.used)} of{" "}
+          {formatFileSize(usage.bytes.limit)} used
+        </span>
+        <span>
+          {usage.objects.used} / {usage.objects.limit} files
+        </span>
+      </div>
+      <div className="w-full bg-accent/30 rounded-full h-2">
+        <div
+          className={`h-2 rounded-full transition-all ${
+            percent >= 90 ? "bg-red-500" : "bg-primary"
+          }`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+
+// Seconds left until an automatic retry, ticking down once a second
+export function RetryCountdown({ until }: { until: number }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [until]);
+
+  const seconds = Math.max(0, Math.ceil((until - now) / 1000));
+  return <>{seconds > 0 ? `in ${seconds}s` : "now"}</>;
+}
@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useState } from "react";
+import { Download, Link, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { PreviewDialog } from "@/components/preview-dialog";
+import { findPreviewRenderer, type PreviewItem } from "@/components/previews";
+import { FileThumbnail } from "@/components/previews/file-thumbnail";
+import { useDownloadUrl } from "@/hooks/use-download-url";
+import { formatTimeLeft } from "@/lib/format";
+import {
+  copyDownloadLink,
+  deleteStoredUpload,
+  downloadUpload,
+  listUploads,
+  type StoredUpload,
+} from "@/lib/uploads-api";
+
+function toPreviewItem(upload: StoredUpload, src?: string): PreviewItem {
+  return {
+    name: upload.filename,
+    type: upload.contentType,
+    size: upload.size,
+    src,
+    metadata: upload.metadata,
+  };
+}
+
+// Past uploads, as recorded by the backend when it confirmed them
+interface UploadGalleryProps {
+  apiUrl: string;
+  onDeleted?: (upload: StoredUpload) => void;
+}
+
+export function UploadGallery({ apiUrl, onDeleted }: UploadGalleryProps) {
+  const [uploads, setUploads] = useState<StoredUpload[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>("");
+  // The upload shown in the preview dialog, which steps through all of them
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const loadPage = useCallback(
+    async (cursor?: string) => {
+      setIsLoading(true);
+      setError("");
+      try {
+        const page = await listUploads(apiUrl, cursor);
+        setUploads((prev) =>
+          cursor ? [...prev, ...page.uploads] : page.uploads
+        );
+        setNextCursor(page.nextCursor);
+      } catch (error) {
+        console.error("Error loading uploads:", error);
+        setError(
+          error instanceof Error ? error.message : "Failed to load uploads"
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [apiUrl]
+  );
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  // The bucket is private, so previews use presigned URLs that are refreshed
+  // while the dialog stays open
+  const selectedIndex = uploads.findIndex((u) => u.key === selectedKey);
+  const selected = selectedIndex === -1 ? null : uploads[selectedIndex];
+  const previewUrl = useDownloadUrl(apiUrl, selected?.key);
+
+  const copyLink = async (upload: StoredUpload) => {
+    try {
+      const expiresAt = await copyDownloadLink(apiUrl, upload.key);
+      toast.success(`Link copied, valid for ${formatTimeLeft(expiresAt)}`);
+    } catch (error) {
+      console.error(`Error copying link to ${upload.key}:`, error);
+      toast.error(`Couldn't copy a link to ${upload.filename}`);
+    }
+  };
+
+  const download = async (upload: StoredUpload) => {
+    try {
+      await downloadUpload(apiUrl, upload.key);
+    } catch (error) {
+      console.error(`Error downloading ${upload.key}:`, error);
+      toast.error(`Couldn't download ${upload.filename}`);
+    }
+  };
+
+  const removeUpload = async (upload: StoredUpload, e?: React.MouseEvent) => {
+    e?.stopPropagation(); // Prevent opening the preview
+    if (!window.confirm(`Delete ${upload.filename}? This can't be undone.`)) {
+      return;
+    }
+
+    try {
+      await deleteStoredUpload(apiUrl, upload.key);
+      setUploads((prev) => prev.filter((u) => u.key !== upload.key));
+      setSelectedKey(null);
+      onDeleted?.(upload);
+      toast.success(`Deleted ${upload.filename}`);
+    } catch (error) {
+      console.error(`Error deleting ${upload.key}:`, error);
+      toast.error(`Couldn't delete ${upload.filename}`);
+    }
+  };
+
+  return (
+    <div className="border border-accent rounded-md max-w-md w-full p-4">
+      <h2 className="font-semibold mb-2">Uploaded Files</h2>
+
+      {error && <p className="text-sm text-red-500 mb-2">{error}</p>}
+
+      {!isLoading && !error && uploads.length === 0 && (
+        <p className="text-sm text-muted-foreground">Nothing uploaded yet.</p>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        {uploads.map((upload) => (
+          <GalleryTile
+            key={upload.key}
+            apiUrl={apiUrl}
+            upload={upload}
+            onOpen={() => setSelectedKey(upload.key)}
+            onDelete={(e) => removeUpload(upload, e)}
+          />
+        ))}
+      </div>
+
+      {isLoading && (
+        <div className="flex justify-center py-4">
+          <Loader2 size={20} className="animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {!isLoading && nextCursor && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full mt-3"
+          onClick={() => loadPage(nextCursor)}
+        >
+          Load more
+        </Button>
+      )}
+
+      <PreviewDialog
+        items={uploads.map((upload) =>
+          toPreviewItem(
+            upload,
+            upload.key === selectedKey ? previewUrl : undefined
+          )
+        )}
+        index={selected ? selectedIndex : null}
+        onNavigate={(index) => setSelectedKey(uploads[index].key)}
+        onClose={() => setSelectedKey(null)}
+        actions={
+          selected && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => copyLink(selected)}
+              >
+                <Link />
+                Copy link
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => download(selected)}
+              >
+                <Download />
+                Download
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => removeUpload(selected)}
+              >
+                <Trash2 />
+                Delete
+              </Button>
+            </div>
+          )
+        }
+      />
+    </div>
+  );
+}
+
+interface GalleryTileProps {
+  apiUrl: string;
+  upload: StoredUpload;
+  onOpen: () => void;
+  onDelete: (e: React.MouseEvent) => void;
+}
+
+function GalleryTile({ apiUrl, upload, onOpen, onDelete }: GalleryTileProps) {
+  // Only tiles with a thumbnail drawn from the file need a URL for it
+  const hasThumbnail = !!findPreviewRenderer(upload.contentType)?.Thumbnail;
+  const url = useDownloadUrl(apiUrl, hasThumbnail ? upload.key : undefined);
+
+  return (
+    <div
+      className="relative aspect-square bg-accent/10 rounded overflow-hidden cursor-pointer group"
+      onClick={onOpen}
+      title={upload.filename}
+    >
+      <FileThumbnail
+        item={toPreviewItem(upload, url)}
+        className="w-full h-full object-cover"
+      />
+      <button
+        onClick={onDelete}
+        className="absolute right-1 top-1 bg-background/80 rounded-full p-1 hover:bg-accent opacity-0 group-hover:opacity-100 transition-opacity"
+        aria-label={`Delete ${upload.filename}`}
+      >
+        <Trash2 size={14} />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import {
+  DOWNLOAD_URL_REFRESH_MARGIN,
+  getDownloadUrl,
+  type Disposition,
+} from "@/lib/uploads-api";
+
+// A presigned URL for an upload that's swapped for a fresh one before it
+// expires. Undefined until one for the current key arrives, or when there's
+// no key.
+export function useDownloadUrl(
+  apiUrl: string,
+  key: string | undefined,
+  disposition: Disposition = "inline"
+) {
+  // Kept with what it was fetched for, so a URL for the previous key isn't
+  // handed out while the next one loads
+  const [fetched, setFetched] = useState<{
+    key: string;
+    disposition: Disposition;
+    url: string;
+  }>();
+
+  useEffect(() => {
+    if (!key) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const refresh = async () => {
+      try {
+        const downloadUrl = await getDownloadUrl(apiUrl, key, disposition);
+        if (cancelled) return;
+        setFetched({ key, disposition, url: downloadUrl.url });
+        timer = setTimeout(
+          refresh,
+          downloadUrl.expiresAt - DOWNLOAD_URL_REFRESH_MARGIN - Date.now()
+        );
+      } catch (error) {
+        console.error(`Error getting download URL for ${key}:`, error);
+      }
+    };
+    refresh();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [apiUrl, key, disposition]);
+
+  return fetched && fetched.key === key && fetched.disposition === disposition
+    ? fetched.url
+    : undefined;
+}
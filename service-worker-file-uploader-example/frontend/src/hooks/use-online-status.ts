@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from "react";
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+// Whether the browser thinks it has a network connection
+export function useOnlineStatus() {
+  return useSyncExternalStore(subscribe, () => navigator.onLine);
+}
@@ -0,0 +1,581 @@
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { API_URL } from "@/lib/config";
+import { formatFileSize, formatTimeLeft } from "@/lib/format";
+import { copyDownloadLink } from "@/lib/uploads-api";
+import {
+  serverStatusFor,
+  subscribeToUploadEvents,
+  type ServerStatus,
+} from "@/lib/upload-events";
+import { hashFile } from "@/lib/hash";
+import type { PickedFile } from "@/lib/collect-files";
+import { detectFileType, withType } from "@/lib/file-type";
+import {
+  DEFAULT_PROCESSING_OPTIONS,
+  isImageProcessingSupported,
+  isProcessable,
+  OUTPUT_FORMATS,
+  processImage,
+  type ProcessedImage,
+  type ProcessingOptions,
+} from "@/lib/image-processing";
+import { readMediaMetadata } from "@/lib/media-metadata";
+import { onUploaderMessage, postToUploader } from "@/lib/service-worker";
+import type { UploadRecord, UploadStatus } from "@/serviceworker/messages";
+import {
+  describeTypes,
+  fetchUploadPolicy,
+  type UploadPolicy,
+} from "@/lib/upload-policy";
+
+// Interface for file information, as reported by the upload service worker
+// and, once it's uploaded, by the backend's event stream
+export interface FileInfo extends Omit<UploadRecord, "status"> {
+  status: UploadStatus | ServerStatus;
+  // Why the backend rejected the file after it was uploaded
+  serverMessage?: string;
+  previewUrl: string;
+  // A frame captured from a video, used as its thumbnail
+  posterUrl?: string;
+  // The optimized version of an image, while the user picks which to upload
+  processed?: ProcessedImage;
+}
+
+export interface UploaderOptions {
+  // Tells uploaders apart in the queue they share. Each shows and reports only
+  // the files added to it, so give every uploader in the app its own id; the
+  // same id in another tab, or after a reload, shows the same files.
+  uploaderId?: string;
+  // The backend to upload to
+  apiUrl?: string;
+  // Narrow the backend's upload policy. They can't widen it, since the
+  // backend rejects anything it doesn't allow.
+  allowedTypes?: string[];
+  maxFileSize?: number;
+  // This uploader's uploads that run at once. Every open tab shares them, so
+  // the tab that mounted it last sets it.
+  concurrency?: number;
+  // Folders under the user's uploads that keys go in, e.g. "avatars"
+  keyPrefix?: string;
+  // Optional resizing and re-encoding of images before they're uploaded
+  processImages?: boolean;
+  processingOptions?: ProcessingOptions;
+  // Called once a file is in storage, and when one fails or the backend
+  // rejects it
+  onUploaded?: (file: FileInfo) => void;
+  onError?: (file: FileInfo, message: string) => void;
+}
+
+const DEFAULT_UPLOADER_ID = "default";
+const DEFAULT_CONCURRENCY = 3;
+
+// Files the page is still preparing, which the service worker doesn't know about
+const PAGE_ONLY_STATUSES: FileInfo["status"][] = [
+  "processing",
+  "processed",
+  "hashing",
+];
+
+// Everything after the file reached storage
+const UPLOADED_STATUSES: FileInfo["status"][] = [
+  "success",
+  "postprocessing",
+  "ready",
+];
+
+interface ServerState {
+  status: ServerStatus;
+  reason?: string;
+}
+
+// Move an uploaded file on to what the backend last said about it. Events can
+// arrive before the worker reports success, so they're kept by key until then.
+function withServerState(
+  fileInfo: FileInfo,
+  serverStates: Map<string, ServerState>
+): FileInfo {
+  const state = fileInfo.key && serverStates.get(fileInfo.key);
+  if (!state || fileInfo.status !== "success") return fileInfo;
+  return { ...fileInfo, status: state.status, serverMessage: state.reason };
+}
+
+// Release the object URLs a file card holds
+function revokeFileUrls(fileInfo: FileInfo) {
+  URL.revokeObjectURL(fileInfo.previewUrl);
+  if (fileInfo.posterUrl) URL.revokeObjectURL(fileInfo.posterUrl);
+}
+
+// The upload queue as the page sees it: files being prepared here, uploads
+// the service worker reports on, and what the backend does with them after.
+// Only use it while a user is signed in.
+export function useUploader({
+  uploaderId = DEFAULT_UPLOADER_ID,
+  apiUrl = API_URL,
+  allowedTypes,
+  maxFileSize,
+  concurrency = DEFAULT_CONCURRENCY,
+  keyPrefix,
+  processImages = false,
+  processingOptions = DEFAULT_PROCESSING_OPTIONS,
+  onUploaded,
+  onError,
+}: UploaderOptions = {}) {
+  const [files, setFiles] = useState<FileInfo[]>([]);
+  const [fileError, setFileError] = useState<string>("");
+  // The latest files, for cleaning up after the last render
+  const filesRef = useRef(files);
+  filesRef.current = files;
+
+  // Files still being hashed, which the service worker doesn't know about yet
+  const hashing = useRef(new Map<string, AbortController>());
+
+  // Latest backend lifecycle state per object key, from the event stream
+  const serverStates = useRef(new Map<string, ServerState>());
+
+  // The status each file had when the callbacks last ran
+  const reportedStatuses = useRef(new Map<string, FileInfo["status"]>());
+
+  // Allowed types and size limit come from the backend, which enforces them too
+  const [serverPolicy, setServerPolicy] = useState<UploadPolicy | null>(null);
+  const policy: UploadPolicy | null = serverPolicy && {
+    ...serverPolicy,
+    allowedTypes: allowedTypes
+      ? serverPolicy.allowedTypes.filter((type) => allowedTypes.includes(type))
+      : serverPolicy.allowedTypes,
+    maxFileSize: Math.min(
+      serverPolicy.maxFileSize,
+      maxFileSize ?? serverPolicy.maxFileSize
+    ),
+  };
+
+  // Images are only re-encoded to types the policy accepts
+  const outputFormats = OUTPUT_FORMATS.filter((format) =>
+    policy?.allowedTypes.includes(format)
+  );
+
+  const addFiles = async (selectedFiles: PickedFile[]) => {
+    setFileError("");
+    if (!policy) return;
+    if (selectedFiles.length > 0) {
+      const newFiles: FileInfo[] = [];
+      const uploads: UploadRecord[] = [];
+      const invalidFiles: string[] = [];
+
+      // Files are checked and uploaded as the type their content has
+      const types = await Promise.all(
+        selectedFiles.map(({ file }) =>
+          detectFileType(file).catch((error) => {
+            console.warn(`Error reading ${file.name}:`, error);
+            return null;
+          })
+        )
+      );
+
+      selectedFiles.forEach(({ file: pickedFile, relativePath }, i) => {
+        // Validate file type
+        const type = types[i];
+        if (!type) {
+          invalidFiles.push(`${pickedFile.name} (unrecognized content)`);
+          return;
+        }
+        if (!policy.allowedTypes.includes(type)) {
+          invalidFiles.push(`${pickedFile.name} (unsupported type)`);
+          return;
+        }
+        const selectedFile = withType(pickedFile, type);
+
+        const shouldProcess =
+          processImages &&
+          isImageProcessingSupported &&
+          outputFormats.length > 0 &&
+          isProcessable(selectedFile.type);
+
+        // Validate file size; images being optimized are checked once the
+        // user picks a version
+        if (!shouldProcess && selectedFile.size > policy.maxFileSize) {
+          invalidFiles.push(
+            `${selectedFile.name} (exceeds ${formatFileSize(policy.maxFileSize)} limit)`
+          );
+          return;
+        }
+
+        // Create the upload job; it goes to the service worker once hashed
+        const upload: UploadRecord = {
+          file: selectedFile,
+          apiUrl,
+          id: crypto.randomUUID(),
+          name: selectedFile.name,
+          relativePath,
+          keyPrefix,
+          owner: uploaderId,
+          size: selectedFile.size,
+          type: selectedFile.type,
+          status: shouldProcess ? "processing" : "hashing",
+          progress: 0,
+          addedAt: Date.now(),
+          priority: 0,
+        };
+        uploads.push(upload);
+
+        // Create preview URL immediately
+        newFiles.push({
+          ...upload,
+          previewUrl: URL.createObjectURL(upload.file),
+        });
+      });
+
+      if (invalidFiles.length > 0) {
+        setFileError(`Some files were not added: ${invalidFiles.join(", ")}`);
+      }
+
+      // Add files to state
+      setFiles((prev) => [...prev, ...newFiles]);
+
+      uploads.forEach((upload) =>
+        upload.status === "processing"
+          ? processUpload(upload)
+          : hashAndEnqueue(upload)
+      );
+    }
+  };
+
+  // Optimize an image, then wait for the user to pick the version to upload
+  const processUpload = async (upload: UploadRecord) => {
+    try {
+      const processed = await processImage(upload.id, upload.file, {
+        ...processingOptions,
+        format: outputFormats.includes(processingOptions.format)
+          ? processingOptions.format
+          : outputFormats[0],
+      });
+      updateFile(upload.id, { status: "processed", processed });
+    } catch (error) {
+      console.warn(`Error processing ${upload.name}:`, error);
+      toast.warning(`Couldn't optimize ${upload.name}`);
+      updateFile(upload.id, { status: "processed" });
+    }
+  };
+
+  // Why a version of a file can't be uploaded under the policy, or null when
+  // it can
+  const disallowedReason = (file: File) => {
+    if (!policy) return "can't be checked before the upload policy loads";
+    if (!policy.allowedTypes.includes(file.type)) {
+      return `is a ${describeTypes([file.type])}, which isn't allowed`;
+    }
+    if (file.size > policy.maxFileSize) {
+      return `exceeds the ${formatFileSize(policy.maxFileSize)} limit`;
+    }
+    return null;
+  };
+
+  const isAllowed = (file: File) => disallowedReason(file) === null;
+
+  const chooseVersion = (
+    fileInfo: FileInfo,
+    version: "original" | "processed"
+  ) => {
+    const file =
+      version === "processed" ? fileInfo.processed!.file : fileInfo.file;
+
+    let previewUrl = fileInfo.previewUrl;
+    if (version === "processed") {
+      URL.revokeObjectURL(previewUrl);
+      previewUrl = URL.createObjectURL(file);
+    }
+
+    const upload: UploadRecord = {
+      file,
+      apiUrl: fileInfo.apiUrl,
+      id: fileInfo.id,
+      name: file.name,
+      relativePath: fileInfo.relativePath,
+      keyPrefix: fileInfo.keyPrefix,
+      owner: fileInfo.owner,
+      size: file.size,
+      type: file.type,
+      status: "hashing",
+      progress: 0,
+      addedAt: fileInfo.addedAt,
+      priority: fileInfo.priority,
+    };
+    updateFile(fileInfo.id, { ...upload, previewUrl, processed: undefined });
+    hashAndEnqueue(upload);
+  };
+
+  // Work out the file's SHA-256 off the main thread, then hand it over to the
+  // service worker, which uploads it
+  const hashAndEnqueue = async (upload: UploadRecord) => {
+    const controller = new AbortController();
+    hashing.current.set(upload.id, controller);
+
+    // Shown on the card and stored with the object as metadata
+    let metadata: UploadRecord["metadata"];
+    try {
+      let poster: Blob | undefined;
+      ({ metadata, poster } = await readMediaMetadata(upload.file));
+      updateFile(upload.id, {
+        metadata,
+        posterUrl: poster && URL.createObjectURL(poster),
+      });
+    } catch (error) {
+      console.warn(`Error reading metadata of ${upload.name}:`, error);
+    }
+
+    let checksum: string | undefined;
+    try {
+      checksum = await hashFile(upload.id, upload.file, {
+        signal: controller.signal,
+        onProgress: (progress) => updateFile(upload.id, { progress }),
+      });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      // Storage can't check the upload without a checksum, but it still works
+      console.warn(`Error hashing ${upload.name}:`, error);
+    } finally {
+      hashing.current.delete(upload.id);
+    }
+
+    const hashed: UploadRecord = {
+      ...upload,
+      metadata,
+      checksum,
+      status: "pending",
+      progress: 0,
+    };
+    updateFile(upload.id, hashed);
+    postToUploader({ type: "enqueue", uploads: [hashed] });
+  };
+
+  const updateFile = (id: string, changes: Partial<FileInfo>) => {
+    setFiles((prev) =>
+      prev.map((f) => (f.id === id ? { ...f, ...changes } : f))
+    );
+  };
+
+  const removeFile = (id: string) => {
+    hashing.current.get(id)?.abort();
+    setFiles((prev) => {
+      const fileToRemove = prev.find((f) => f.id === id);
+      if (fileToRemove) revokeFileUrls(fileToRemove);
+      return prev.filter((f) => f.id !== id);
+    });
+    postToUploader({ type: "remove", id });
+  };
+
+  const retryUpload = (id: string) => {
+    postToUploader({ type: "retry", id });
+  };
+
+  // Pause, resume or cancel one upload, or all of this uploader's when no id
+  // is given
+  const controlUpload = (type: "pause" | "resume" | "cancel", id?: string) => {
+    postToUploader({ type, id, owner: uploaderId });
+  };
+
+  const prioritizeUpload = (id: string) => {
+    postToUploader({ type: "prioritize", id });
+  };
+
+  const resumeInterrupted = () => {
+    files
+      .filter((f) => f.interrupted)
+      .forEach((f) => postToUploader({ type: "retry", id: f.id }));
+  };
+
+  // Links are short-lived presigned URLs, fetched when they're copied
+  const copyLink = async (fileInfo: FileInfo) => {
+    try {
+      const expiresAt = await copyDownloadLink(fileInfo.apiUrl, fileInfo.key!);
+      toast.success(`Link copied, valid for ${formatTimeLeft(expiresAt)}`);
+    } catch (error) {
+      console.error(`Error copying link to ${fileInfo.key}:`, error);
+      toast.error(`Couldn't copy a link to ${fileInfo.name}`);
+    }
+  };
+
+  useEffect(() => {
+    fetchUploadPolicy(apiUrl)
+      .then(setServerPolicy)
+      .catch((error) => {
+        console.error("Error loading upload policy:", error);
+        setFileError("Couldn't load the upload policy, uploads are disabled");
+      });
+  }, [apiUrl]);
+
+  useEffect(() => {
+    postToUploader({ type: "configure", owner: uploaderId, concurrency });
+  }, [uploaderId, concurrency]);
+
+  // Follow uploads past "success" as the backend confirms and processes them.
+  // A new stream replays the user's recent events, so nothing is missed.
+  useEffect(() => {
+    const states = serverStates.current;
+    states.clear();
+
+    const unsubscribe = subscribeToUploadEvents(apiUrl, (event) => {
+      const status = serverStatusFor(event.type);
+      if (!status) return;
+      states.set(event.key, { status, reason: event.reason });
+      setFiles((prev) => prev.map((f) => withServerState(f, states)));
+    });
+    return unsubscribe;
+  }, [apiUrl]);
+
+  // Report files that just finished uploading or failed. Files seen for the
+  // first time, e.g. restored after a reload, were reported back then.
+  useEffect(() => {
+    const statuses = reportedStatuses.current;
+    files.forEach((f) => {
+      const previous = statuses.get(f.id);
+      statuses.set(f.id, f.status);
+      if (previous === undefined || previous === f.status) return;
+
+      if (
+        UPLOADED_STATUSES.includes(f.status) &&
+        !UPLOADED_STATUSES.includes(previous)
+      ) {
+        onUploaded?.(f);
+      }
+      if (f.status === "error") {
+        onError?.(f, f.errorMessage ?? "Upload failed");
+      } else if (f.status === "rejected") {
+        onError?.(f, f.serverMessage ?? "Rejected by the server");
+      }
+    });
+    statuses.forEach((_, id) => {
+      if (!files.some((f) => f.id === id)) statuses.delete(id);
+    });
+  }, [files, onUploaded, onError]);
+
+  // Render the state reported by the uploader. It's shared by every open tab
+  // and every uploader, so updates can be for files another tab added, and
+  // ones that belong to other uploaders are left out.
+  useEffect(() => {
+    const unsubscribe = onUploaderMessage((message) => {
+      switch (message.type) {
+        case "uploads": {
+          // Rebuild the list from the worker, which restores it from IndexedDB
+          // after a reload. Files still being prepared are only known here.
+          const uploads = message.uploads.filter(
+            (upload) => upload.owner === uploaderId
+          );
+          setFiles((prev) => [
+            ...uploads.map((upload) => {
+              const existing = prev.find((f) => f.id === upload.id);
+              return withServerState(
+                existing
+                  ? { ...existing, ...upload }
+                  : { ...upload, previewUrl: URL.createObjectURL(upload.file) },
+                serverStates.current
+              );
+            }),
+            ...prev.filter(
+              (f) =>
+                PAGE_ONLY_STATUSES.includes(f.status) &&
+                !uploads.some((upload) => upload.id === f.id)
+            ),
+          ]);
+          break;
+        }
+
+        case "upload-updated":
+          if (message.upload.owner !== uploaderId) break;
+          setFiles((prev) =>
+            prev.some((f) => f.id === message.upload.id)
+              ? prev.map((f) =>
+                  f.id === message.upload.id
+                    ? withServerState(
+                        { ...f, ...message.upload },
+                        serverStates.current
+                      )
+                    : f
+                )
+              : [
+                  ...prev,
+                  {
+                    ...message.upload,
+                    previewUrl: URL.createObjectURL(message.upload.file),
+                  },
+                ]
+          );
+          break;
+
+        case "upload-removed":
+          setFiles((prev) => {
+            const fileToRemove = prev.find((f) => f.id === message.id);
+            if (fileToRemove) revokeFileUrls(fileToRemove);
+            return prev.filter((f) => f.id !== message.id);
+          });
+          break;
+
+        case "upload-skipped":
+          setFiles((prev) => {
+            const skipped = prev.find((f) => f.id === message.id);
+            if (!skipped) return prev;
+            revokeFileUrls(skipped);
+            toast.info(`${skipped.name} is already being uploaded`, {
+              id: `skipped-${message.id}`,
+            });
+            return prev.filter((f) => f.id !== message.id);
+          });
+          break;
+
+        // Counts every uploader's files, so they all show the same toast
+        case "offline-replayed":
+          if (message.failed > 0) {
+            toast.error(
+              `Back online: ${message.succeeded} queued uploads finished, ${message.failed} failed`,
+              { id: "offline-replayed" }
+            );
+          } else if (message.succeeded > 0) {
+            toast.success(
+              `Back online: ${message.succeeded} queued uploads finished`,
+              { id: "offline-replayed" }
+            );
+          }
+          break;
+      }
+    });
+
+    // Fallback for browsers without Background Sync: nudge the worker to replay
+    // the offline queue when the connection comes back
+    const handleOnline = () => postToUploader({ type: "replay" });
+    window.addEventListener("online", handleOnline);
+
+    postToUploader({ type: "list" });
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener("online", handleOnline);
+    };
+  }, [uploaderId]);
+
+  // Clean up preview URLs when component unmounts
+  useEffect(() => {
+    return () => {
+      filesRef.current.forEach(revokeFileUrls);
+    };
+  }, []);
+
+  return {
+    files,
+    policy,
+    outputFormats,
+    fileError,
+    setFileError,
+    addFiles,
+    isAllowed,
+    disallowedReason,
+    chooseVersion,
+    removeFile,
+    retryUpload,
+    controlUpload,
+    prioritizeUpload,
+    resumeInterrupted,
+    copyLink,
+  };
+}
+
+export type Uploader = ReturnType<typeof useUploader>;
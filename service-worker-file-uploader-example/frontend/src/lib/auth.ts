@@ -0,0 +1,78 @@
+import type { Session as WorkerSession } from "@/serviceworker/messages";
+
+// The signed-in user, as issued by the backend's /login and /register
+export interface Session {
+  token: string;
+  expiresAt: string;
+  user: { id: string; username: string };
+}
+
+export type Credentials = { username: string; password: string };
+
+const SESSION_KEY = "upload-session";
+
+// Fired when the backend turns down the session, so the page can sign out
+export const SESSION_EXPIRED_EVENT = "session-expired";
+
+export function loadSession(): Session | null {
+  try {
+    const session: Session | null = JSON.parse(
+      localStorage.getItem(SESSION_KEY) ?? "null"
+    );
+    return session && Date.parse(session.expiresAt) > Date.now()
+      ? session
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: Session) {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+}
+
+export function clearSession() {
+  localStorage.removeItem(SESSION_KEY);
+}
+
+// What the upload service worker needs to act for the user
+export function toWorkerSession(session: Session | null): WorkerSession | null {
+  return session && { token: session.token, userId: session.user.id };
+}
+
+export async function signIn(
+  apiUrl: string,
+  mode: "login" | "register",
+  credentials: Credentials
+) {
+  const response = await fetch(`${apiUrl}/${mode}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(credentials),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Sign in failed: ${response.statusText}`);
+  }
+  saveSession(body);
+  return body as Session;
+}
+
+// fetch with the session's bearer token. A 401 means the session is over.
+export async function authFetch(input: string, init: RequestInit = {}) {
+  const session = loadSession();
+  const response = await fetch(input, {
+    ...init,
+    headers: {
+      ...init.headers,
+      ...(session && { Authorization: `Bearer ${session.token}` }),
+    },
+  });
+
+  if (response.status === 401) {
+    clearSession();
+    window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+  }
+  return response;
+}
@@ -0,0 +1,88 @@
+// Gathers files from drops, folder pickers and the clipboard, keeping track
+// of where each one sat inside a dropped or picked folder
+
+export interface PickedFile {
+  file: File;
+  // "folder/sub/name.ext" for files from a folder, undefined for loose files
+  relativePath?: string;
+}
+
+function readEntries(reader: FileSystemDirectoryReader) {
+  return new Promise<FileSystemEntry[]>((resolve, reject) =>
+    reader.readEntries(resolve, reject)
+  );
+}
+
+function entryFile(entry: FileSystemFileEntry) {
+  return new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+}
+
+// Walk a dropped entry. readEntries hands over directories in batches (100 at
+// a time in Chrome), so it's called until it comes back empty.
+async function collectEntry(entry: FileSystemEntry): Promise<PickedFile[]> {
+  if (entry.isFile) {
+    const file = await entryFile(entry as FileSystemFileEntry);
+    // fullPath is "/folder/name.ext", or "/name.ext" for a loose file
+    const relativePath = entry.fullPath.replace(/^\//, "");
+    return [
+      {
+        file,
+        relativePath: relativePath.includes("/") ? relativePath : undefined,
+      },
+    ];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: PickedFile[] = [];
+  for (;;) {
+    const batch = await readEntries(reader);
+    if (batch.length === 0) return files;
+    for (const child of batch) files.push(...(await collectEntry(child)));
+  }
+}
+
+// Files from a drop, recursing into dropped folders. The entries have to be
+// taken from the DataTransfer before the drop handler returns, since it's
+// emptied afterwards.
+export async function filesFromDataTransfer(
+  dataTransfer: DataTransfer
+): Promise<PickedFile[]> {
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry());
+
+  if (entries.length === 0 || entries.some((entry) => !entry)) {
+    return Array.from(dataTransfer.files, (file) => ({ file }));
+  }
+  const collected = await Promise.all(
+    entries.map((entry) => collectEntry(entry!))
+  );
+  return collected.flat();
+}
+
+// Files from an <input type="file">. A folder picker (webkitdirectory) sets
+// webkitRelativePath on each of them.
+export function filesFromInput(fileList: FileList): PickedFile[] {
+  return Array.from(fileList, (file) => ({
+    file,
+    relativePath: file.webkitRelativePath || undefined,
+  }));
+}
+
+// Images pasted from the clipboard. Screenshots arrive as "image.png", so
+// they're renamed to something that won't collide.
+export function filesFromClipboard(clipboardData: DataTransfer): PickedFile[] {
+  const pastedAt = new Date().toISOString().replace(/[:.]/g, "-");
+  return Array.from(clipboardData.files)
+    .filter((file) => file.type.startsWith("image/"))
+    .map((file, index) => {
+      const extension = file.type.split("/")[1].replace("jpeg", "jpg");
+      const suffix = index > 0 ? `-${index + 1}` : "";
+      return {
+        file: new File([file], `pasted-${pastedAt}${suffix}.${extension}`, {
+          type: file.type,
+          lastModified: Date.now(),
+        }),
+      };
+    });
+}
@@ -0,0 +1,2 @@
+// The backend the app talks to, set with VITE_API_URL in an .env file
+export const API_URL = import.meta.env.VITE_API_URL || "http://localhost:8080";
@@ -0,0 +1,107 @@
+// Works out a file's type from its leading bytes rather than trusting
+// File.type, which browsers guess from the extension and leave empty when
+// they can't. The backend checks stored uploads the same way on confirm, in
+// magic-bytes.js.
+
+const SNIFF_LENGTH = 64; // enough for every signature below
+
+function startsWith(
+  bytes: Uint8Array,
+  signature: string | number[],
+  offset = 0
+) {
+  const expected =
+    typeof signature === "string"
+      ? Array.from(signature, (char) => char.charCodeAt(0))
+      : signature;
+  return (
+    bytes.length >= offset + expected.length &&
+    expected.every((byte, i) => bytes[offset + i] === byte)
+  );
+}
+
+// ISO base media files (MP4, QuickTime, M4A, AVIF, HEIC) share the "ftyp"
+// box and differ in its major brand
+function isoMediaType(bytes: Uint8Array) {
+  if (!startsWith(bytes, "ftyp", 4)) return null;
+  const brand = String.fromCharCode(...bytes.subarray(8, 12));
+  if (brand === "qt  ") return "video/quicktime";
+  if (brand === "M4A " || brand === "M4B ") return "audio/mp4";
+  if (brand === "avif" || brand === "avis") return "image/avif";
+  if (["heic", "heix", "mif1", "msf1"].includes(brand)) return "image/heic";
+  return "video/mp4";
+}
+
+// The content type the bytes identify, or null when they match none we know
+export function sniffType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(bytes, "GIF87a") || startsWith(bytes, "GIF89a")) {
+    return "image/gif";
+  }
+  if (startsWith(bytes, "RIFF") && startsWith(bytes, "WEBP", 8)) {
+    return "image/webp";
+  }
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return "video/webm";
+  if (startsWith(bytes, "BM")) return "image/bmp";
+  if (
+    startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) ||
+    startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])
+  ) {
+    return "image/tiff";
+  }
+  if (startsWith(bytes, "%PDF-")) return "application/pdf";
+  return isoMediaType(bytes);
+}
+
+// Types with a signature above. Files claiming one of them must have it.
+const KNOWN_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "image/avif",
+  "image/heic",
+  "image/bmp",
+  "image/tiff",
+  "video/webm",
+  "video/mp4",
+  "video/quicktime",
+  "application/pdf",
+];
+
+// MP4, QuickTime and M4A audio are the same container, and files are
+// routinely labelled as any of them
+const EQUIVALENT_TYPES = [
+  ["video/mp4", "video/quicktime", "audio/mp4", "audio/x-m4a"],
+];
+
+function isEquivalent(a: string, b: string) {
+  return EQUIVALENT_TYPES.some(
+    (types) => types.includes(a) && types.includes(b)
+  );
+}
+
+// The type to validate and upload a file as: what its bytes say, or the
+// browser's guess for types without a signature. Null when a file's content
+// doesn't match the type it claims, or nothing identifies it.
+export async function detectFileType(file: File): Promise<string | null> {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_LENGTH).arrayBuffer());
+  const detected = sniffType(bytes);
+  if (detected) {
+    return detected === file.type || isEquivalent(detected, file.type)
+      ? file.type
+      : detected;
+  }
+  if (KNOWN_TYPES.includes(file.type)) return null;
+  return file.type || null;
+}
+
+// The same file labelled with the type its content has
+export function withType(file: File, type: string) {
+  return file.type === type
+    ? file
+    : new File([file], file.name, { type, lastModified: file.lastModified });
+}
@@ -0,0 +1,24 @@
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return bytes + " B";
+  else if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
+  else if (bytes < 1024 * 1024 * 1024)
+    return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+  else return (bytes / (1024 * 1024 * 1024)).toFixed(1) + " GB";
+}
+
+// Rough time until a timestamp, e.g. "15 minutes"
+export function formatTimeLeft(until: number): string {
+  const minutes = Math.max(1, Math.round((until - Date.now()) / 60000));
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.round(minutes / 60);
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+}
+
+// A media duration as m:ss, or h:mm:ss for an hour or more
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
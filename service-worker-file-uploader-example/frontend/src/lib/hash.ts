@@ -0,0 +1,65 @@
+import type { HashRequest, HashResponse } from "@/workers/hash-messages";
+
+interface HashJob {
+  resolve: (checksum: string) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+const jobs = new Map<string, HashJob>();
+let worker: Worker | null = null;
+
+// Hashing a large file takes a while, so it happens in a worker that's started
+// with the first file and shared by all the others
+function getWorker() {
+  if (!worker) {
+    worker = new Worker(new URL("../workers/hash.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.addEventListener("message", (event: MessageEvent<HashResponse>) => {
+      const message = event.data;
+      const job = jobs.get(message.id);
+      if (!job) return;
+
+      switch (message.type) {
+        case "progress":
+          job.onProgress?.(message.progress);
+          return;
+        case "done":
+          job.resolve(message.checksum);
+          break;
+        case "cancelled":
+          job.reject(new DOMException("Hashing was cancelled", "AbortError"));
+          break;
+        case "error":
+          job.reject(new Error(message.message));
+          break;
+      }
+      jobs.delete(message.id);
+    });
+  }
+  return worker;
+}
+
+function post(message: HashRequest) {
+  getWorker().postMessage(message);
+}
+
+// Resolves with the file's base64 SHA-256 digest. Files queue up and are
+// hashed one after another.
+export function hashFile(
+  id: string,
+  file: File,
+  {
+    onProgress,
+    signal,
+  }: { onProgress?: (progress: number) => void; signal?: AbortSignal } = {}
+) {
+  return new Promise<string>((resolve, reject) => {
+    jobs.set(id, { resolve, reject, onProgress });
+    post({ type: "hash", id, file });
+    signal?.addEventListener("abort", () => post({ type: "cancel", id }), {
+      once: true,
+    });
+  });
+}
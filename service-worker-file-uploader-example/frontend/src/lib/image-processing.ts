@@ -0,0 +1,92 @@
+import type {
+  OutputFormat,
+  ProcessingOptions,
+  ProcessResponse,
+} from "@/workers/image-messages";
+
+export type { OutputFormat, ProcessingOptions };
+
+export const DEFAULT_PROCESSING_OPTIONS: ProcessingOptions = {
+  maxDimension: 2048,
+  format: "image/webp",
+  quality: 0.8,
+};
+
+// What images can be re-encoded to, in order of preference
+export const OUTPUT_FORMATS: OutputFormat[] = ["image/webp", "image/jpeg"];
+
+// GIFs are left alone, re-encoding would drop their animation
+const PROCESSABLE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+export const isImageProcessingSupported =
+  typeof OffscreenCanvas !== "undefined" && typeof Worker !== "undefined";
+
+export function isProcessable(type: string) {
+  return PROCESSABLE_TYPES.includes(type);
+}
+
+export interface ProcessedImage {
+  file: File;
+  width: number;
+  height: number;
+}
+
+interface ProcessJob {
+  resolve: (result: ProcessedImage) => void;
+  reject: (error: Error) => void;
+  name: string;
+}
+
+const jobs = new Map<string, ProcessJob>();
+let worker: Worker | null = null;
+
+function getWorker() {
+  if (!worker) {
+    worker = new Worker(
+      new URL("../workers/image.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    worker.addEventListener(
+      "message",
+      (event: MessageEvent<ProcessResponse>) => {
+        const message = event.data;
+        const job = jobs.get(message.id);
+        if (!job) return;
+        jobs.delete(message.id);
+
+        if (message.type === "error") {
+          job.reject(new Error(message.message));
+          return;
+        }
+        job.resolve({
+          file: new File([message.blob], job.name, { type: message.blob.type }),
+          width: message.width,
+          height: message.height,
+        });
+      }
+    );
+  }
+  return worker;
+}
+
+// The file name with its extension swapped for the output format's
+function processedName(name: string, format: OutputFormat) {
+  const extension = format === "image/webp" ? ".webp" : ".jpg";
+  return name.replace(/\.[^.]*$/, "") + extension;
+}
+
+// Downscale, re-encode and strip the metadata of an image off the main thread
+export function processImage(
+  id: string,
+  file: File,
+  options: ProcessingOptions
+) {
+  return new Promise<ProcessedImage>((resolve, reject) => {
+    jobs.set(id, {
+      resolve,
+      reject,
+      name: processedName(file.name, options.format),
+    });
+    getWorker().postMessage({ id, file, options });
+  });
+}
@@ -0,0 +1,202 @@
+import { formatDuration } from "@/lib/format";
+import type { MediaMetadata } from "@/serviceworker/messages";
+
+// Container formats whose boxes are read for the audio check
+const MP4_TYPES = ["video/mp4", "video/quicktime"];
+
+// Poster frames are only shown as thumbnails, so they're kept small
+const POSTER_MAX_DIMENSION = 640;
+
+interface Box {
+  type: string;
+  start: number; // where the box's payload starts
+  end: number;
+}
+
+// Reads an MP4/QuickTime box header: a 32-bit size and a four character type,
+// followed by a 64-bit size when the short one is 1. A size of 0 runs to the end.
+function readBoxHeader(view: DataView, offset: number, end: number) {
+  if (offset + 8 > view.byteLength) return null;
+  let size = view.getUint32(offset);
+  const type = String.fromCharCode(
+    ...new Uint8Array(view.buffer, view.byteOffset + offset + 4, 4)
+  );
+  let header = 8;
+  if (size === 1) {
+    if (offset + 16 > view.byteLength) return null;
+    size = Number(view.getBigUint64(offset + 8));
+    header = 16;
+  } else if (size === 0) {
+    size = end - offset;
+  }
+  return size < header ? null : { type, header, size };
+}
+
+function* childBoxes(view: DataView, start: number, end: number) {
+  for (let offset = start; offset < end;) {
+    const box = readBoxHeader(view, offset, end);
+    if (!box) return;
+    yield {
+      type: box.type,
+      start: offset + box.header,
+      end: Math.min(offset + box.size, end),
+    } as Box;
+    offset += box.size;
+  }
+}
+
+// The movie box holds the track list. It can be anywhere among the top-level
+// boxes, so their headers are read one by one without loading the media data.
+async function readMovieBox(file: File) {
+  for (let offset = 0; offset + 8 <= file.size;) {
+    const view = new DataView(
+      await file.slice(offset, offset + 16).arrayBuffer()
+    );
+    const box = readBoxHeader(view, 0, file.size - offset);
+    if (!box) return null;
+    if (box.type === "moov") {
+      return new DataView(
+        await file.slice(offset + box.header, offset + box.size).arrayBuffer()
+      );
+    }
+    offset += box.size;
+  }
+  return null;
+}
+
+// Whether any track's handler (moov > trak > mdia > hdlr) is a sound handler
+async function hasAudioTrack(file: File) {
+  const moov = await readMovieBox(file);
+  if (!moov) return undefined;
+
+  for (const trak of childBoxes(moov, 0, moov.byteLength)) {
+    if (trak.type !== "trak") continue;
+    for (const mdia of childBoxes(moov, trak.start, trak.end)) {
+      if (mdia.type !== "mdia") continue;
+      for (const hdlr of childBoxes(moov, mdia.start, mdia.end)) {
+        // Version and flags, then pre_defined, then the handler type
+        if (hdlr.type === "hdlr" && hdlr.start + 12 <= hdlr.end) {
+          const handler = String.fromCharCode(
+            ...new Uint8Array(moov.buffer, moov.byteOffset + hdlr.start + 8, 4)
+          );
+          if (handler === "soun") return true;
+        }
+      }
+    }
+  }
+  return false;
+}
+
+function once(target: HTMLMediaElement, event: string) {
+  return new Promise<void>((resolve, reject) => {
+    target.addEventListener(event, () => resolve(), { once: true });
+    target.addEventListener(
+      "error",
+      () => reject(new Error("The browser couldn't decode this video")),
+      { once: true }
+    );
+  });
+}
+
+function scaleToFit(width: number, height: number, max: number) {
+  const scale = Math.min(1, max / Math.max(width, height));
+  return [Math.round(width * scale), Math.round(height * scale)];
+}
+
+// Size and duration from the video element, and a frame for the poster
+async function readVideo(file: File) {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+  video.src = url;
+
+  try {
+    await once(video, "loadeddata");
+    const { videoWidth: width, videoHeight: height } = video;
+    // Streamed files can report an infinite or unknown duration
+    const duration = Number.isFinite(video.duration)
+      ? video.duration
+      : undefined;
+
+    // The very first frame is often black, so take one a little way in
+    video.currentTime = duration !== undefined ? Math.min(1, duration / 10) : 0;
+    await once(video, "seeked");
+
+    const canvas = document.createElement("canvas");
+    [canvas.width, canvas.height] = scaleToFit(
+      width,
+      height,
+      POSTER_MAX_DIMENSION
+    );
+    canvas
+      .getContext("2d")!
+      .drawImage(video, 0, 0, canvas.width, canvas.height);
+    const poster = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", 0.8)
+    );
+
+    return { width, height, duration, poster: poster ?? undefined };
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+async function readImage(file: File) {
+  const bitmap = await createImageBitmap(file);
+  const { width, height } = bitmap;
+  bitmap.close();
+  return { width, height };
+}
+
+// Dimensions of images, and dimensions, duration, audio and a poster frame of
+// videos. Whatever can't be read is left out.
+export async function readMediaMetadata(
+  file: File
+): Promise<{ metadata?: MediaMetadata; poster?: Blob }> {
+  if (file.type.startsWith("image/")) {
+    return { metadata: await readImage(file) };
+  }
+  if (!file.type.startsWith("video/")) {
+    return {};
+  }
+
+  const [video, hasAudio] = await Promise.allSettled([
+    readVideo(file),
+    MP4_TYPES.includes(file.type)
+      ? hasAudioTrack(file)
+      : Promise.resolve(undefined),
+  ]);
+  if (video.status === "rejected") {
+    console.warn(`Error reading ${file.name}:`, video.reason);
+  }
+
+  const { poster, ...details } =
+    video.status === "fulfilled" ? video.value : {};
+  return {
+    metadata: {
+      ...details,
+      hasAudio: hasAudio.status === "fulfilled" ? hasAudio.value : undefined,
+    },
+    poster,
+  };
+}
+
+// e.g. "1920×1080 · 0:42 · No audio"
+export function describeMedia(metadata?: MediaMetadata) {
+  if (!metadata) return "";
+  const details: string[] = [];
+  if (metadata.width && metadata.height) {
+    details.push(`${metadata.width}×${metadata.height}`);
+  }
+  if (metadata.duration !== undefined && Number.isFinite(metadata.duration)) {
+    details.push(formatDuration(metadata.duration));
+  }
+  if (metadata.hasAudio !== undefined) {
+    details.push(metadata.hasAudio ? "Audio" : "No audio");
+  }
+  return details.join(" · ");
+}
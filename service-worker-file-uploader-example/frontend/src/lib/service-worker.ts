@@ -0,0 +1,83 @@
+import type { ClientMessage, WorkerMessage } from "@/serviceworker/messages";
+import { onLeaderMessage, postToLeader } from "@/lib/tab-leader";
+
+// Vite serves the worker source as an ES module in dev and emits it as /sw.js on build
+const SERVICE_WORKER_URL = import.meta.env.DEV
+  ? "/src/serviceworker/sw.ts"
+  : "/sw.js";
+
+export const isServiceWorkerSupported = "serviceWorker" in navigator;
+
+export function registerServiceWorker() {
+  return navigator.serviceWorker.register(SERVICE_WORKER_URL, {
+    type: "module",
+    scope: "/",
+  });
+}
+
+// Messages go to the active worker, which may not control this page yet on
+// first load. Without service workers they go to the leader tab's uploader.
+export async function postToUploader(message: ClientMessage) {
+  if (!isServiceWorkerSupported) {
+    postToLeader(message);
+    return;
+  }
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage(message);
+}
+
+export function onUploaderMessage(listener: (message: WorkerMessage) => void) {
+  if (!isServiceWorkerSupported) return onLeaderMessage(listener);
+
+  const handleMessage = (event: MessageEvent<WorkerMessage>) =>
+    listener(event.data);
+
+  navigator.serviceWorker.addEventListener("message", handleMessage);
+  navigator.serviceWorker.startMessages();
+
+  return () =>
+    navigator.serviceWorker.removeEventListener("message", handleMessage);
+}
+
+// Calls back with a new version of the worker once it has installed and is
+// waiting to take over. On the very first install there's nothing to replace,
+// so that doesn't count.
+export function onUpdateAvailable(listener: (worker: ServiceWorker) => void) {
+  let registration: ServiceWorkerRegistration | undefined;
+  let stopped = false;
+
+  const notifyIfWaiting = () => {
+    if (registration?.waiting && navigator.serviceWorker.controller) {
+      listener(registration.waiting);
+    }
+  };
+  const handleUpdateFound = () => {
+    const installing = registration?.installing;
+    installing?.addEventListener("statechange", () => {
+      if (installing.state === "installed") notifyIfWaiting();
+    });
+  };
+
+  navigator.serviceWorker.getRegistration().then((found) => {
+    if (stopped || !found) return;
+    registration = found;
+    registration.addEventListener("updatefound", handleUpdateFound);
+    notifyIfWaiting();
+  });
+
+  return () => {
+    stopped = true;
+    registration?.removeEventListener("updatefound", handleUpdateFound);
+  };
+}
+
+// Let the waiting worker take over and reload into the new version once it
+// controls the page
+export function applyUpdate(worker: ServiceWorker) {
+  navigator.serviceWorker.addEventListener(
+    "controllerchange",
+    () => window.location.reload(),
+    { once: true }
+  );
+  worker.postMessage({ type: "skip-waiting" } satisfies ClientMessage);
+}
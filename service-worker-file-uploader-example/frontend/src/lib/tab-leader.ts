@@ -0,0 +1,104 @@
+import type { ClientMessage, WorkerMessage } from "@/serviceworker/messages";
+
+// Without a service worker, the open tabs elect a leader that runs the upload
+// queue in a dedicated worker. The others send it their messages over a
+// BroadcastChannel and get its updates back the same way, so every tab still
+// shows and controls the same uploads.
+
+type ChannelMessage =
+  | { kind: "command"; message: ClientMessage }
+  | { kind: "update"; message: WorkerMessage }
+  // Sent by a tab that just took over as leader
+  | { kind: "leader" };
+
+const CHANNEL_NAME = "file-uploader";
+const LOCK_NAME = "file-uploader-leader";
+
+let channel: BroadcastChannel | null = null;
+let worker: Worker | null = null;
+const listeners = new Set<(message: WorkerMessage) => void>();
+
+// The last settings this tab sent, handed to each new leader since its
+// worker starts out without them
+let lastSession: ClientMessage | undefined;
+// By owner
+const lastConfigure = new Map<string, ClientMessage>();
+
+function deliver(message: WorkerMessage) {
+  listeners.forEach((listener) => listener(message));
+}
+
+function send(message: ClientMessage) {
+  if (message.type === "session") lastSession = message;
+  if (message.type === "configure") lastConfigure.set(message.owner, message);
+
+  if (worker) worker.postMessage(message);
+  else
+    channel?.postMessage({ kind: "command", message } satisfies ChannelMessage);
+}
+
+function resync() {
+  if (lastSession) send(lastSession);
+  lastConfigure.forEach((message) => send(message));
+  send({ type: "list" });
+}
+
+function becomeLeader() {
+  worker = new Worker(
+    new URL("../workers/uploader.worker.ts", import.meta.url),
+    { type: "module" }
+  );
+  worker.addEventListener("message", (event: MessageEvent<WorkerMessage>) => {
+    deliver(event.data);
+    channel?.postMessage({
+      kind: "update",
+      message: event.data,
+    } satisfies ChannelMessage);
+  });
+
+  channel?.postMessage({ kind: "leader" } satisfies ChannelMessage);
+  resync();
+}
+
+function start() {
+  if (channel) return;
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.addEventListener("message", (event: MessageEvent<ChannelMessage>) => {
+    const data = event.data;
+    switch (data.kind) {
+      case "command":
+        worker?.postMessage(data.message);
+        break;
+      case "update":
+        deliver(data.message);
+        break;
+      case "leader":
+        resync();
+        break;
+    }
+  });
+
+  // The lock is held for as long as the tab is open. When the leader closes,
+  // the next tab in line gets it. Without Web Locks every tab leads itself.
+  if (navigator.locks) {
+    navigator.locks.request(LOCK_NAME, () => {
+      becomeLeader();
+      return new Promise<never>(() => {});
+    });
+  } else {
+    becomeLeader();
+  }
+}
+
+export function postToLeader(message: ClientMessage) {
+  start();
+  send(message);
+}
+
+export function onLeaderMessage(listener: (message: WorkerMessage) => void) {
+  start();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
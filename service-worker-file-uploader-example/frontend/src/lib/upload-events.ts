@@ -0,0 +1,120 @@
+import { authFetch } from "@/lib/auth";
+
+// Lifecycle events the backend streams for the signed-in user's uploads over
+// Server-Sent Events. EventSource can't send the Authorization header, so the
+// stream is read with fetch and parsed here.
+
+export type UploadEventType =
+  "presigned" | "confirmed" | "processing" | "ready" | "rejected";
+
+export interface UploadEvent {
+  id: number;
+  type: UploadEventType;
+  key: string;
+  filename: string;
+  at: string;
+  // Why the upload was rejected
+  reason?: string;
+}
+
+// What the server does with a file after the service worker reports success.
+// "postprocessing" is the server's "processing" event, named apart from the
+// page's own image processing.
+export type ServerStatus = "postprocessing" | "ready" | "rejected";
+
+// The file card status an event moves an upload to, if any
+export function serverStatusFor(type: UploadEventType): ServerStatus | null {
+  switch (type) {
+    case "processing":
+      return "postprocessing";
+    case "ready":
+    case "rejected":
+      return type;
+    default:
+      return null;
+  }
+}
+
+const DEFAULT_RECONNECT_DELAY = 3000; // 3s, unless the server says otherwise
+
+interface StreamState {
+  lastEventId?: string;
+  reconnectDelay: number;
+}
+
+// Split a text/event-stream into messages and hand each upload event over.
+// Comments (heartbeats) and unknown fields are ignored.
+async function readStream(
+  body: ReadableStream<Uint8Array>,
+  state: StreamState,
+  onEvent: (event: UploadEvent) => void
+) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += value.replace(/\r\n?/g, "\n");
+
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) !== -1) {
+      const message = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      let data = "";
+      for (const line of message.split("\n")) {
+        const colon = line.indexOf(":");
+        if (colon === 0) continue;
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const fieldValue =
+          colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+
+        if (field === "data") data += (data ? "\n" : "") + fieldValue;
+        else if (field === "id") state.lastEventId = fieldValue;
+        else if (field === "retry" && /^\d+$/.test(fieldValue)) {
+          state.reconnectDelay = Number(fieldValue);
+        }
+      }
+
+      if (data) onEvent(JSON.parse(data) as UploadEvent);
+    }
+  }
+}
+
+// Stay subscribed until the returned function is called, reconnecting after
+// dropped connections and resuming from the last event received
+export function subscribeToUploadEvents(
+  apiUrl: string,
+  onEvent: (event: UploadEvent) => void
+) {
+  const controller = new AbortController();
+  const state: StreamState = { reconnectDelay: DEFAULT_RECONNECT_DELAY };
+
+  const connect = async () => {
+    while (!controller.signal.aborted) {
+      try {
+        const response = await authFetch(`${apiUrl}/events`, {
+          headers: {
+            Accept: "text/event-stream",
+            ...(state.lastEventId && { "Last-Event-ID": state.lastEventId }),
+          },
+          signal: controller.signal,
+        });
+        // Signed out; the page drops the subscription along with the session
+        if (response.status === 401) return;
+        if (response.ok && response.body) {
+          await readStream(response.body, state, onEvent);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Upload event stream dropped:", error);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, state.reconnectDelay));
+    }
+  };
+  connect();
+
+  return () => controller.abort();
+}
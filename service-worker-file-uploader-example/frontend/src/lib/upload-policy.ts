@@ -0,0 +1,20 @@
+// The upload policy enforced by the backend, served from GET /upload-policy
+export interface UploadPolicy {
+  allowedTypes: string[];
+  maxFileSize: number;
+  keyPrefix: string;
+}
+
+export async function fetchUploadPolicy(apiUrl: string) {
+  const response = await fetch(`${apiUrl}/upload-policy`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to load upload policy: ${response.statusText}`);
+  }
+  return (await response.json()) as UploadPolicy;
+}
+
+// "image/jpeg", "video/quicktime" -> "JPEG, QUICKTIME"
+export function describeTypes(types: string[]) {
+  return types.map((type) => type.split("/")[1].toUpperCase()).join(", ");
+}
@@ -0,0 +1,108 @@
+import type { MediaMetadata } from "@/serviceworker/messages";
+import { authFetch } from "@/lib/auth";
+
+// Client for the backend's confirmed-upload endpoints, used by the gallery
+
+export interface StoredUpload {
+  key: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  metadata?: MediaMetadata;
+  confirmedAt: string;
+}
+
+export interface UploadsPage {
+  uploads: StoredUpload[];
+  nextCursor: string | null;
+}
+
+function uploadPath(apiUrl: string, key: string) {
+  return `${apiUrl}/uploads/${key.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+export async function listUploads(apiUrl: string, cursor?: string) {
+  const params = new URLSearchParams(cursor ? { cursor } : {});
+  const response = await authFetch(`${apiUrl}/uploads?${params}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to load uploads: ${response.statusText}`);
+  }
+  return (await response.json()) as UploadsPage;
+}
+
+export async function deleteStoredUpload(apiUrl: string, key: string) {
+  const response = await authFetch(uploadPath(apiUrl, key), {
+    method: "DELETE",
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to delete upload: ${response.statusText}`);
+  }
+  downloadUrls.delete(`inline:${key}`);
+  downloadUrls.delete(`attachment:${key}`);
+}
+
+export interface QuotaUsage {
+  bytes: { used: number; limit: number };
+  objects: { used: number; limit: number };
+}
+
+// Counts stored files plus upload URLs that are still outstanding
+export async function fetchQuota(apiUrl: string) {
+  const response = await authFetch(`${apiUrl}/quota`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to load quota: ${response.statusText}`);
+  }
+  return (await response.json()) as QuotaUsage;
+}
+
+export type Disposition = "inline" | "attachment";
+
+export interface DownloadUrl {
+  url: string;
+  expiresAt: number;
+}
+
+// Download URLs are only valid for a few minutes, so they're cached until
+// shortly before they run out and then requested again
+export const DOWNLOAD_URL_REFRESH_MARGIN = 60 * 1000;
+const downloadUrls = new Map<string, DownloadUrl>();
+
+export async function getDownloadUrl(
+  apiUrl: string,
+  key: string,
+  disposition: Disposition = "inline"
+) {
+  const cacheKey = `${disposition}:${key}`;
+  const cached = downloadUrls.get(cacheKey);
+  if (cached && cached.expiresAt - DOWNLOAD_URL_REFRESH_MARGIN > Date.now()) {
+    return cached;
+  }
+
+  const params = new URLSearchParams({ key, disposition });
+  const response = await authFetch(`${apiUrl}/download-url?${params}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to get download URL: ${response.statusText}`);
+  }
+  const { url, expiresAt } = await response.json();
+  const downloadUrl = { url, expiresAt: Date.parse(expiresAt) };
+  downloadUrls.set(cacheKey, downloadUrl);
+  return downloadUrl;
+}
+
+// Copies a link to the upload, returning when it stops working
+export async function copyDownloadLink(apiUrl: string, key: string) {
+  const { url, expiresAt } = await getDownloadUrl(apiUrl, key);
+  await navigator.clipboard.writeText(url);
+  return expiresAt;
+}
+
+// The attachment disposition makes the browser save the file, so this doesn't
+// navigate away from the page
+export async function downloadUpload(apiUrl: string, key: string) {
+  const { url } = await getDownloadUrl(apiUrl, key, "attachment");
+  window.location.assign(url);
+}
@@ -2,6 +2,16 @@ import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import "./index.css";
 import App from "./App.tsx";
+import {
+  isServiceWorkerSupported,
+  registerServiceWorker,
+} from "@/lib/service-worker";
+
+if (isServiceWorkerSupported) {
+  registerServiceWorker().catch((error) =>
+    console.error("Service worker registration failed:", error)
+  );
+}
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
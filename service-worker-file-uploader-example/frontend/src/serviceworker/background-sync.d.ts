@@ -0,0 +1,20 @@
+// Background Sync isn't part of TypeScript's WebWorker lib yet.
+// `sync` is optional because browsers without the API don't have it.
+
+interface SyncManager {
+  register(tag: string): Promise<void>;
+  getTags(): Promise<string[]>;
+}
+
+interface ServiceWorkerRegistration {
+  readonly sync?: SyncManager;
+}
+
+interface SyncEvent extends ExtendableEvent {
+  readonly tag: string;
+  readonly lastChance: boolean;
+}
+
+interface ServiceWorkerGlobalScopeEventMap {
+  sync: SyncEvent;
+}
@@ -0,0 +1,109 @@
+import type { UploadRecord } from "./messages";
+
+// IndexedDB persistence for the upload queue, so it survives reloads and worker restarts.
+// Upload state and file blobs live in separate stores so that progress updates don't
+// rewrite the blob every time.
+
+const DB_NAME = "file-uploader";
+const DB_VERSION = 2;
+const UPLOADS_STORE = "uploads";
+const FILES_STORE = "files";
+// Small values keyed by name, such as the current session
+const SETTINGS_STORE = "settings";
+
+type StoredUpload = Omit<UploadRecord, "file">;
+
+let database: Promise<IDBDatabase> | undefined;
+
+function openDatabase() {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(UPLOADS_STORE)) {
+        db.createObjectStore(UPLOADS_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(FILES_STORE)) {
+        db.createObjectStore(FILES_STORE);
+      }
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return database;
+}
+
+function requestResult<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function loadUploads(): Promise<UploadRecord[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction([UPLOADS_STORE, FILES_STORE], "readonly");
+  const [states, files, keys] = await Promise.all([
+    requestResult<StoredUpload[]>(
+      transaction.objectStore(UPLOADS_STORE).getAll()
+    ),
+    requestResult<File[]>(transaction.objectStore(FILES_STORE).getAll()),
+    requestResult(transaction.objectStore(FILES_STORE).getAllKeys()),
+  ]);
+
+  const filesById = new Map(keys.map((key, i) => [key, files[i]]));
+  return states
+    .filter((state) => filesById.has(state.id))
+    .map((state) => ({ ...state, file: filesById.get(state.id)! }))
+    .sort((a, b) => a.addedAt - b.addedAt);
+}
+
+// Pass includeFile only when the blob itself is new, i.e. when the upload is first queued
+export async function saveUpload(upload: UploadRecord, includeFile = false) {
+  const { file, ...state } = upload;
+  const db = await openDatabase();
+  const transaction = db.transaction([UPLOADS_STORE, FILES_STORE], "readwrite");
+
+  transaction.objectStore(UPLOADS_STORE).put(state);
+  if (includeFile) {
+    transaction.objectStore(FILES_STORE).put(file, upload.id);
+  }
+  await transactionDone(transaction);
+}
+
+export async function deleteUpload(id: string) {
+  const db = await openDatabase();
+  const transaction = db.transaction([UPLOADS_STORE, FILES_STORE], "readwrite");
+
+  transaction.objectStore(UPLOADS_STORE).delete(id);
+  transaction.objectStore(FILES_STORE).delete(id);
+  await transactionDone(transaction);
+}
+
+export async function loadSetting<T>(name: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SETTINGS_STORE, "readonly");
+  return requestResult<T | undefined>(
+    transaction.objectStore(SETTINGS_STORE).get(name)
+  );
+}
+
+export async function saveSetting(name: string, value: unknown) {
+  const db = await openDatabase();
+  const transaction = db.transaction(SETTINGS_STORE, "readwrite");
+
+  transaction.objectStore(SETTINGS_STORE).put(value, name);
+  await transactionDone(transaction);
+}
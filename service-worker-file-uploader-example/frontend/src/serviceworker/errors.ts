@@ -0,0 +1,109 @@
+import type { ErrorCategory } from "./messages";
+
+// Transient failures are retried automatically; the rest fail straight away
+const RETRYABLE_CATEGORIES: ErrorCategory[] = [
+  "network",
+  "server",
+  "throttled",
+  "expired",
+  "integrity",
+];
+
+export class UploadError extends Error {
+  category: ErrorCategory;
+  status?: number;
+  // Milliseconds the server asked us to wait before trying again
+  retryAfter?: number;
+
+  constructor(
+    message: string,
+    category: ErrorCategory,
+    status?: number,
+    retryAfter?: number
+  ) {
+    super(message);
+    this.name = "UploadError";
+    this.category = category;
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+
+  get retryable() {
+    return RETRYABLE_CATEGORIES.includes(this.category);
+  }
+}
+
+function categorize(
+  status: number,
+  code: string | undefined,
+  message: string
+): ErrorCategory {
+  if (code === "SlowDown" || status === 429) return "throttled";
+  // The session expired or the user signed out; retried after signing in
+  if (status === 401) return "auth";
+  if (status >= 500) return "server";
+  // The user's storage quota is full; retrying won't free any of it
+  if (code === "quota_exceeded") return "quota";
+  // S3 rejects presigned URLs past their expiry with "Request has expired"
+  if (status === 403 && /expired/i.test(message)) return "expired";
+  // The backend found the stored object missing or different from the request
+  if (status === 409 || status === 422) return "integrity";
+  if (
+    code === "EntityTooLarge" ||
+    code === "EntityTooSmall" ||
+    status === 413 ||
+    status === 415 ||
+    /policy/i.test(message)
+  ) {
+    return "policy";
+  }
+  return "client";
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null) {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  const delay = Number.isNaN(seconds)
+    ? Date.parse(header) - Date.now()
+    : seconds * 1000;
+  return Number.isNaN(delay) ? undefined : Math.max(0, delay);
+}
+
+// Build an error from a failed response. S3 answers with an XML error
+// document, the backend with a JSON `{ error, code? }` body.
+export async function errorFromResponse(response: Response, action: string) {
+  const body = await response.text().catch(() => "");
+  let code = /<Code>(.*?)<\/Code>/.exec(body)?.[1];
+  let detail = /<Message>(.*?)<\/Message>/.exec(body)?.[1];
+
+  if (!detail) {
+    try {
+      const json = JSON.parse(body);
+      detail = json.error;
+      code ??= json.code;
+    } catch {
+      // Not JSON either, fall back to the status text
+    }
+  }
+  detail ??= response.statusText || `HTTP ${response.status}`;
+
+  return new UploadError(
+    `${action}: ${detail}`,
+    categorize(response.status, code, detail),
+    response.status,
+    parseRetryAfter(response.headers.get("Retry-After"))
+  );
+}
+
+export function toUploadError(error: unknown) {
+  if (error instanceof UploadError) return error;
+  // fetch rejects with a TypeError when the request never gets a response
+  if (error instanceof TypeError) {
+    return new UploadError(`Network error: ${error.message}`, "network");
+  }
+  return new UploadError(
+    error instanceof Error ? error.message : "Failed to upload file",
+    "client"
+  );
+}
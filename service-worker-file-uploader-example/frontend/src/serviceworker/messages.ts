@@ -0,0 +1,123 @@
+// Shared shapes for the messages exchanged between the page and the upload service worker
+
+// "processing", "processed" and "hashing" only exist on the page, while an
+// image is optimized and the checksum worked out before the file is handed to
+// the worker
+export type UploadStatus =
+  | "processing"
+  | "processed"
+  | "hashing"
+  | "pending"
+  | "queued"
+  | "queued-offline"
+  | "uploading"
+  | "retrying"
+  | "paused"
+  | "cancelled"
+  | "success"
+  | "error";
+
+// Why an upload failed; network, server, throttled, expired and integrity
+// errors are retried
+export type ErrorCategory =
+  | "network"
+  | "server"
+  | "throttled"
+  | "expired"
+  | "integrity"
+  | "client"
+  | "policy"
+  | "quota"
+  | "auth";
+
+// What the page reads from images and videos before uploading them. It's
+// stored with the object as x-amz-meta-* metadata.
+export interface MediaMetadata {
+  width?: number;
+  height?: number;
+  // In seconds
+  duration?: number;
+  hasAudio?: boolean;
+}
+
+// Everything the page needs to render a file card
+export interface UploadState {
+  id: string;
+  name: string;
+  // Where the file sat in a dropped or picked folder, e.g. "photos/2024/a.jpg".
+  // Its folders are mirrored in the object key.
+  relativePath?: string;
+  // Folders the uploader it was added from puts its keys in, e.g. "avatars"
+  keyPrefix?: string;
+  // The id of the uploader it was added from, which is the only one that
+  // shows it
+  owner: string;
+  size: number;
+  type: string;
+  status: UploadStatus;
+  progress: number;
+  addedAt: number;
+  // Higher priorities leave the queue first, ties go in the order files were added
+  priority: number;
+  key?: string;
+  // Base64 SHA-256 of the file, checked by storage and used for its key
+  checksum?: string;
+  metadata?: MediaMetadata;
+  // Storage already held the same content, so the file wasn't sent again
+  alreadyUploaded?: boolean;
+  errorMessage?: string;
+  errorCategory?: ErrorCategory;
+  // Attempts made so far, and when the next automatic one starts
+  attempt?: number;
+  nextAttemptAt?: number;
+  // Set when a pending or uploading file was restored after the worker stopped
+  interrupted?: boolean;
+}
+
+// S3 multipart upload in progress, kept so a large file can resume where it stopped
+export interface MultipartState {
+  key: string;
+  uploadId: string;
+}
+
+// What the service worker keeps for each upload job
+export interface UploadRecord extends UploadState {
+  file: File;
+  apiUrl: string;
+  multipart?: MultipartState;
+}
+
+// Messages sent from the page to the service worker
+// Who the uploads belong to; the worker sends the token with every request
+export interface Session {
+  token: string;
+  userId: string;
+}
+
+export type ClientMessage =
+  | { type: "enqueue"; uploads: UploadRecord[] }
+  // Without an id, these apply to every upload of the owner they can
+  | { type: "retry"; id?: string; owner?: string }
+  | { type: "pause"; id?: string; owner?: string }
+  | { type: "resume"; id?: string; owner?: string }
+  | { type: "cancel"; id?: string; owner?: string }
+  | { type: "prioritize"; id: string }
+  // How many of the owner's uploads run at once
+  | { type: "configure"; owner: string; concurrency: number }
+  | { type: "remove"; id: string }
+  | { type: "list" }
+  // Sent on sign in and on every page load, and with null on sign out
+  | { type: "session"; session: Session | null }
+  // Sent when the page comes back online, for browsers without Background Sync
+  | { type: "replay" }
+  // Sent to a waiting worker when the user accepts an update
+  | { type: "skip-waiting" };
+
+// Messages sent from the service worker to the page
+export type WorkerMessage =
+  | { type: "uploads"; uploads: UploadRecord[] }
+  | { type: "upload-updated"; upload: UploadRecord }
+  | { type: "upload-removed"; id: string }
+  // Not queued because another upload of the same content is unfinished
+  | { type: "upload-skipped"; id: string; duplicateOf: string }
+  | { type: "offline-replayed"; succeeded: number; failed: number };
@@ -0,0 +1,206 @@
+import type { MultipartState, UploadRecord } from "./messages";
+import { errorFromResponse, UploadError } from "./errors";
+import { apiHeaders } from "./session";
+
+// Files above this size go through S3 multipart uploads
+export const MULTIPART_THRESHOLD = 50 * 1024 * 1024; // 50MB
+
+// S3 needs at least 5MB per part (except the last) and allows 10,000 parts,
+// which gives 10MB parts a ceiling of ~100GB per file
+const PART_SIZE = 10 * 1024 * 1024; // 10MB
+const PART_CONCURRENCY = 4;
+
+interface UploadedPart {
+  PartNumber: number;
+  ETag: string;
+}
+
+interface MultipartCallbacks {
+  // Called once S3 hands out an upload id, so it can be persisted for resuming
+  onCreated: (multipart: MultipartState) => Promise<void>;
+  onProgress: (progress: number) => Promise<void>;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: await apiHeaders(),
+  });
+
+  if (!response.ok) {
+    throw await errorFromResponse(response, "Multipart upload request failed");
+  }
+  return response.json();
+}
+
+function partBounds(partNumber: number, size: number) {
+  const start = (partNumber - 1) * PART_SIZE;
+  return { start, end: Math.min(start + PART_SIZE, size) };
+}
+
+async function listUploadedParts(
+  apiUrl: string,
+  multipart: MultipartState,
+  signal: AbortSignal
+) {
+  const params = new URLSearchParams({
+    key: multipart.key,
+    uploadId: multipart.uploadId,
+  });
+  const { parts } = await request<{ parts: UploadedPart[] }>(
+    `${apiUrl}/list-upload-parts?${params}`,
+    { signal }
+  );
+  return parts;
+}
+
+async function uploadPart(
+  upload: UploadRecord,
+  multipart: MultipartState,
+  partNumber: number,
+  signal: AbortSignal
+): Promise<UploadedPart> {
+  const { url } = await request<{ url: string }>(
+    `${upload.apiUrl}/get-upload-part-url`,
+    {
+      method: "POST",
+      body: JSON.stringify({ ...multipart, partNumber }),
+      signal,
+    }
+  );
+
+  const { start, end } = partBounds(partNumber, upload.size);
+  const response = await fetch(url, {
+    method: "PUT",
+    body: upload.file.slice(start, end),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await errorFromResponse(
+      response,
+      `Failed to upload part ${partNumber}`
+    );
+  }
+
+  const etag = response.headers.get("ETag");
+  if (!etag) {
+    throw new UploadError(
+      "Missing ETag, check that the bucket's CORS exposes it",
+      "client"
+    );
+  }
+  return { PartNumber: partNumber, ETag: etag };
+}
+
+// Upload a file in parts, picking up from the parts S3 already has when the
+// upload record carries the id of an earlier attempt
+export async function uploadMultipart(
+  upload: UploadRecord,
+  signal: AbortSignal,
+  { onCreated, onProgress }: MultipartCallbacks
+) {
+  let multipart = upload.multipart;
+  let uploadedParts: UploadedPart[] = [];
+
+  if (multipart) {
+    try {
+      uploadedParts = await listUploadedParts(upload.apiUrl, multipart, signal);
+    } catch (error) {
+      // The earlier upload expired or was aborted, so start a new one
+      if (!(error instanceof UploadError && error.status === 404)) throw error;
+      multipart = undefined;
+    }
+  }
+
+  if (!multipart) {
+    const created = await request<
+      MultipartState | { alreadyUploaded: true; key: string }
+    >(`${upload.apiUrl}/create-multipart-upload`, {
+      method: "POST",
+      body: JSON.stringify({
+        filename: upload.name,
+        filetype: upload.type,
+        size: upload.size,
+        checksum: upload.checksum,
+        metadata: upload.metadata,
+        relativePath: upload.relativePath,
+        keyPrefix: upload.keyPrefix,
+      }),
+      signal,
+    });
+    // Storage already holds a file with the same content
+    if ("alreadyUploaded" in created) {
+      await onProgress(100);
+      return { key: created.key, alreadyUploaded: true };
+    }
+    multipart = created;
+    await onCreated(multipart);
+  }
+
+  const partCount = Math.ceil(upload.size / PART_SIZE);
+  const parts = new Map(uploadedParts.map((part) => [part.PartNumber, part]));
+  const remaining: number[] = [];
+  let uploadedBytes = 0;
+
+  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+    if (parts.has(partNumber)) {
+      const { start, end } = partBounds(partNumber, upload.size);
+      uploadedBytes += end - start;
+    } else {
+      remaining.push(partNumber);
+    }
+  }
+  await onProgress(Math.round((uploadedBytes * 100) / upload.size));
+
+  // A small pool of workers pulling part numbers off the shared list
+  const current = multipart;
+  const worker = async () => {
+    for (
+      let partNumber = remaining.shift();
+      partNumber !== undefined;
+      partNumber = remaining.shift()
+    ) {
+      parts.set(
+        partNumber,
+        await uploadPart(upload, current, partNumber, signal)
+      );
+      const { start, end } = partBounds(partNumber, upload.size);
+      uploadedBytes += end - start;
+      await onProgress(Math.round((uploadedBytes * 100) / upload.size));
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(PART_CONCURRENCY, remaining.length) }, worker)
+  );
+
+  const { key } = await request<{ key: string }>(
+    `${upload.apiUrl}/complete-multipart-upload`,
+    {
+      method: "POST",
+      body: JSON.stringify({
+        ...multipart,
+        parts: Array.from(parts.values()).sort(
+          (a, b) => a.PartNumber - b.PartNumber
+        ),
+      }),
+      signal,
+    }
+  );
+  return { key, alreadyUploaded: false };
+}
+
+// Best effort: S3 also cleans up incomplete uploads if the bucket has a lifecycle rule
+export async function abortMultipart(
+  apiUrl: string,
+  multipart: MultipartState
+) {
+  try {
+    await request(`${apiUrl}/abort-multipart-upload`, {
+      method: "POST",
+      body: JSON.stringify(multipart),
+    });
+  } catch (error) {
+    console.error("Failed to abort multipart upload:", error);
+  }
+}
@@ -0,0 +1,63 @@
+declare let self: ServiceWorkerGlobalScope & {
+  __PRECACHE_MANIFEST?: PrecacheManifest;
+};
+
+// The app shell: every file of the build, so the uploader opens offline. The
+// precache plugin in vite.config.ts prepends the manifest to the built sw.js.
+// In dev there's none and nothing is cached.
+interface PrecacheManifest {
+  // A hash of the file list, which changes whenever any file does
+  version: string;
+  urls: string[];
+}
+
+const manifest: PrecacheManifest = self.__PRECACHE_MANIFEST ?? {
+  version: "dev",
+  urls: [],
+};
+
+const CACHE_PREFIX = "app-shell-";
+const CACHE_NAME = `${CACHE_PREFIX}${manifest.version}`;
+
+// Navigations are answered with the shell's HTML, whatever the URL
+const SHELL_URL = "/index.html";
+
+export const isDevBuild = manifest.version === "dev";
+
+// Called on install. A failed download fails the install, so a worker is only
+// ever waiting with a complete cache.
+export async function precacheShell() {
+  if (manifest.urls.length === 0) return;
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(manifest.urls);
+}
+
+// Called on activate, once the worker owning the old caches is gone
+export async function deleteOldCaches() {
+  const names = await caches.keys();
+  await Promise.all(
+    names
+      .filter((name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+      .map((name) => caches.delete(name))
+  );
+}
+
+// Serve the shell from the cache. Anything else, including every backend and
+// storage request, goes to the network untouched.
+export function respondFromCache(event: FetchEvent) {
+  const { request } = event;
+  if (manifest.urls.length === 0 || request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  const cacheUrl = request.mode === "navigate" ? SHELL_URL : url.pathname;
+  if (!manifest.urls.includes(cacheUrl)) return;
+
+  event.respondWith(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.match(cacheUrl))
+      .then((cached) => cached ?? fetch(request))
+  );
+}
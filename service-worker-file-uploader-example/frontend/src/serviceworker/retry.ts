@@ -0,0 +1,30 @@
+// Exponential backoff with full jitter for automatic upload retries
+
+export const MAX_ATTEMPTS = 5;
+
+const BASE_DELAY = 1000; // 1s
+const MAX_DELAY = 30 * 1000; // 30s
+
+// Random delay up to an exponentially growing cap, so uploads that failed
+// together don't all retry at the same moment
+export function backoffDelay(attempt: number) {
+  const cap = Math.min(MAX_DELAY, BASE_DELAY * 2 ** (attempt - 1));
+  return Math.round(Math.random() * cap);
+}
+
+// Resolves true after the delay, or false as soon as the signal aborts
+export function wait(delay: number, signal: AbortSignal) {
+  return new Promise<boolean>((resolve) => {
+    if (signal.aborted) return resolve(false);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, delay);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,76 @@
+// Runs uploads with a limit on how many of each uploader's are in flight at
+// once. The worker owns the queue itself; the scheduler only asks it which ids
+// are waiting, in order, and whose they are.
+
+export type AbortReason = "paused" | "cancelled";
+
+interface SchedulerOptions {
+  // The limit for owners that haven't set their own
+  concurrency: number;
+  // Ids waiting for a slot, highest priority first
+  waiting: () => string[];
+  ownerOf: (id: string) => string;
+  run: (id: string, signal: AbortSignal) => Promise<void>;
+}
+
+interface RunningUpload {
+  owner: string;
+  controller: AbortController;
+  done: Promise<void>;
+}
+
+export function createScheduler({
+  concurrency,
+  waiting,
+  ownerOf,
+  run,
+}: SchedulerOptions) {
+  const running = new Map<string, RunningUpload>();
+  const limits = new Map<string, number>();
+
+  function runningFor(owner: string) {
+    return Array.from(running.values()).filter(
+      (upload) => upload.owner === owner
+    ).length;
+  }
+
+  // Start waiting uploads until each owner's slots are taken
+  function pump() {
+    for (const id of waiting()) {
+      if (running.has(id)) continue;
+      const owner = ownerOf(id);
+      if (runningFor(owner) >= (limits.get(owner) ?? concurrency)) continue;
+
+      const controller = new AbortController();
+      const done = run(id, controller.signal).finally(() => {
+        running.delete(id);
+        pump();
+      });
+      running.set(id, { owner, controller, done });
+    }
+  }
+
+  function abort(id: string, reason: AbortReason) {
+    running.get(id)?.controller.abort(reason);
+  }
+
+  function isRunning(id: string) {
+    return running.has(id);
+  }
+
+  function setConcurrency(owner: string, limit: number) {
+    limits.set(owner, Math.max(1, limit));
+    pump();
+  }
+
+  // Resolves once nothing is running, including uploads started along the way
+  async function whenIdle() {
+    while (running.size > 0) {
+      await Promise.allSettled(
+        Array.from(running.values(), (upload) => upload.done)
+      );
+    }
+  }
+
+  return { pump, abort, isRunning, setConcurrency, whenIdle };
+}
@@ -0,0 +1,25 @@
+import { loadSetting, saveSetting } from "./db";
+import type { Session } from "./messages";
+
+// The signed-in user's session, handed over by the pages. It's persisted so
+// Background Sync can still upload after every page has closed.
+let session: Promise<Session | null> | undefined;
+
+export function getSession() {
+  session ??= loadSetting<Session>("session").then((value) => value ?? null);
+  return session;
+}
+
+export async function setSession(value: Session | null) {
+  session = Promise.resolve(value);
+  await saveSetting("session", value);
+}
+
+// Headers for backend requests, carrying the bearer token when signed in
+export async function apiHeaders(): Promise<Record<string, string>> {
+  const current = await getSession();
+  return {
+    "Content-Type": "application/json",
+    ...(current && { Authorization: `Bearer ${current.token}` }),
+  };
+}
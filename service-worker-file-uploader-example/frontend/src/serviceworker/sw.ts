@@ -0,0 +1,70 @@
+import { createUploader } from "./uploader";
+import type { ClientMessage, WorkerMessage } from "./messages";
+import {
+  deleteOldCaches,
+  isDevBuild,
+  precacheShell,
+  respondFromCache,
+} from "./precache";
+
+declare let self: ServiceWorkerGlobalScope;
+
+// Background Sync tag for replaying uploads queued while offline
+const OFFLINE_SYNC_TAG = "offline-uploads";
+
+const uploader = createUploader({ broadcast, scheduleOfflineReplay });
+
+// A new version waits until the page asks it to take over, so the user can
+// reload when it suits them. There's nothing to keep consistent in dev.
+self.addEventListener("install", (event) => {
+  if (isDevBuild) self.skipWaiting();
+  event.waitUntil(precacheShell());
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(Promise.all([deleteOldCaches(), self.clients.claim()]));
+});
+
+self.addEventListener("fetch", respondFromCache);
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === OFFLINE_SYNC_TAG) {
+    event.waitUntil(uploader.replayOfflineUploads());
+  }
+});
+
+// Keep the worker alive until each message is handled and the uploads it
+// starts have settled, so they carry on even if the page goes away
+self.addEventListener("message", (event) => {
+  event.waitUntil(handleMessage(event).then(() => uploader.whenIdle()));
+});
+
+async function handleMessage(event: ExtendableMessageEvent) {
+  const message = event.data as ClientMessage;
+  if (message.type === "skip-waiting") {
+    await self.skipWaiting();
+    return;
+  }
+  await uploader.handleMessage(message, (reply) =>
+    event.source?.postMessage(reply)
+  );
+}
+
+// Send a message to every open page, including ones this worker doesn't control yet
+async function broadcast(message: WorkerMessage) {
+  const clients = await self.clients.matchAll({
+    type: "window",
+    includeUncontrolled: true,
+  });
+  clients.forEach((client) => client.postMessage(message));
+}
+
+// Ask the browser to wake us up once connectivity returns. Without Background
+// Sync, the pages send a "replay" message from their `online` event instead.
+async function scheduleOfflineReplay() {
+  try {
+    await self.registration.sync?.register(OFFLINE_SYNC_TAG);
+  } catch (error) {
+    console.error("Failed to register background sync:", error);
+  }
+}
@@ -0,0 +1,94 @@
+// Sends a presigned POST form and reports how much of it has gone out, which
+// fetch can't do on its own. Where XMLHttpRequest exists (the leader tab's
+// worker) it reports upload progress events. The service worker has no
+// XMLHttpRequest, and counting the bytes of a streamed body would need HTTP/2,
+// which neither S3 nor the local storage speaks, so there it only reports
+// completion. Files large enough for multipart uploads still move part by part.
+
+interface PostFormOptions {
+  signal: AbortSignal;
+  // Whole percents, called each time another one has gone out
+  onProgress: (progress: number) => void;
+}
+
+function parseHeaders(raw: string) {
+  const headers = new Headers();
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      headers.append(
+        line.slice(0, separator).trim(),
+        line.slice(separator + 1).trim()
+      );
+    }
+  }
+  return headers;
+}
+
+// Settles like fetch: a Response for any answer, a TypeError when the request
+// fails and the signal's reason when it's aborted
+function postWithXhr(
+  url: string,
+  form: FormData,
+  { signal, onProgress }: PostFormOptions
+) {
+  return new Promise<Response>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    signal.addEventListener("abort", abort, { once: true });
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.floor((event.loaded * 100) / event.total));
+      }
+    };
+    xhr.onload = () => {
+      const { status, statusText } = xhr;
+      resolve(
+        new Response(
+          // Responses to these can't be given a body
+          [101, 204, 205, 304].includes(status) ? null : xhr.response,
+          {
+            status,
+            statusText,
+            headers: parseHeaders(xhr.getAllResponseHeaders()),
+          }
+        )
+      );
+    };
+    xhr.onerror = () => reject(new TypeError("Failed to fetch"));
+    xhr.onabort = () => reject(signal.reason);
+    xhr.onloadend = () => signal.removeEventListener("abort", abort);
+
+    xhr.open("POST", url);
+    xhr.responseType = "blob";
+    xhr.send(form);
+  });
+}
+
+export async function postForm(
+  url: string,
+  form: FormData,
+  { signal, onProgress }: PostFormOptions
+): Promise<Response> {
+  if (typeof XMLHttpRequest === "undefined") {
+    return fetch(url, { method: "POST", body: form, signal });
+  }
+
+  let reported = 0;
+  return postWithXhr(url, form, {
+    signal,
+    onProgress: (progress) => {
+      // The last percent is left for the confirmation
+      if (progress > reported && progress < 100) {
+        reported = progress;
+        onProgress(progress);
+      }
+    },
+  });
+}
@@ -0,0 +1,510 @@
+import type {
+  ClientMessage,
+  UploadRecord,
+  UploadStatus,
+  WorkerMessage,
+} from "./messages";
+import { deleteUpload, loadUploads, saveUpload } from "./db";
+import {
+  abortMultipart,
+  MULTIPART_THRESHOLD,
+  uploadMultipart,
+} from "./multipart";
+import { createScheduler, type AbortReason } from "./scheduler";
+import { errorFromResponse, toUploadError, UploadError } from "./errors";
+import { backoffDelay, MAX_ATTEMPTS, wait } from "./retry";
+import { apiHeaders, getSession, setSession } from "./session";
+import { postForm } from "./transfer";
+
+// The upload queue and everything that runs it. The service worker hosts it;
+// without one, a dedicated worker in the leader tab does (see tab-leader.ts).
+// Either way there's one queue, persisted in IndexedDB and shared by every tab.
+
+// Used until a page configures its own limit
+const DEFAULT_CONCURRENCY = 3;
+
+interface UploaderHost {
+  // Send a message to every open page
+  broadcast: (message: WorkerMessage) => Promise<void>;
+  // Arrange for replayOfflineUploads to run once the connection is back
+  scheduleOfflineReplay: () => Promise<void>;
+}
+
+export function createUploader({
+  broadcast,
+  scheduleOfflineReplay,
+}: UploaderHost) {
+  // Upload jobs handed over by the pages, keyed by file id
+  const uploads = new Map<string, UploadRecord>();
+
+  const scheduler = createScheduler({
+    concurrency: DEFAULT_CONCURRENCY,
+    waiting: () =>
+      Array.from(uploads.values())
+        .filter((upload) => upload.status === "queued")
+        .sort((a, b) => b.priority - a.priority || a.addedAt - b.addedAt)
+        .map((upload) => upload.id),
+    ownerOf: (id) => uploads.get(id)!.owner,
+    run: uploadFile,
+  });
+
+  // States an upload can be cancelled from
+  const ACTIVE_STATUSES: UploadStatus[] = [
+    "pending",
+    "queued",
+    "queued-offline",
+    "uploading",
+    "retrying",
+  ];
+
+  let restored: Promise<void> | undefined;
+
+  // Load the persisted queue once per worker lifetime. Anything still waiting or
+  // uploading at that point was cut off when the previous worker stopped.
+  function restoreUploads() {
+    restored ??= loadUploads().then((records) => {
+      records.forEach((record) => {
+        if (uploads.has(record.id)) return;
+        const unfinished =
+          record.status === "pending" ||
+          record.status === "queued" ||
+          record.status === "uploading" ||
+          record.status === "retrying";
+        uploads.set(
+          record.id,
+          unfinished
+            ? { ...record, status: "pending", progress: 0, interrupted: true }
+            : record
+        );
+      });
+    });
+    return restored;
+  }
+
+  // Apply a message from a page. `reply` answers the page that sent it.
+  async function handleMessage(
+    message: ClientMessage,
+    reply: (message: WorkerMessage) => void
+  ) {
+    await restoreUploads();
+
+    switch (message.type) {
+      case "enqueue":
+        await Promise.all(
+          message.uploads.map(async (upload) => {
+            // Another tab may already be uploading the same file
+            const duplicate = findDuplicate(upload);
+            if (duplicate) {
+              await broadcast({
+                type: "upload-skipped",
+                id: upload.id,
+                duplicateOf: duplicate.id,
+              });
+              return;
+            }
+
+            const queued = { ...upload, status: "queued" as const };
+            uploads.set(upload.id, queued);
+            await saveUpload(queued, true);
+            await broadcast({ type: "upload-updated", upload: queued });
+          })
+        );
+        scheduler.pump();
+        break;
+
+      case "retry":
+      case "resume":
+        await Promise.all(targets(message).map((upload) => requeue(upload.id)));
+        scheduler.pump();
+        break;
+
+      case "pause":
+        await Promise.all(
+          targets(message).map((upload) => stopUpload(upload, "paused"))
+        );
+        break;
+
+      case "cancel":
+        await Promise.all(
+          targets(message).map((upload) => stopUpload(upload, "cancelled"))
+        );
+        break;
+
+      case "prioritize": {
+        const highest = Math.max(
+          0,
+          ...Array.from(uploads.values(), (upload) => upload.priority)
+        );
+        await update(message.id, { priority: highest + 1 });
+        break;
+      }
+
+      case "configure":
+        scheduler.setConcurrency(message.owner, message.concurrency);
+        break;
+
+      case "remove":
+        await removeUpload(message.id);
+        break;
+
+      case "session": {
+        // The queue belongs to whoever was signed in. Signing out, or in as
+        // someone else, drops it.
+        const previous = await getSession();
+        if (previous && previous.userId !== message.session?.userId) {
+          await Promise.all(Array.from(uploads.keys(), removeUpload));
+        }
+        await setSession(message.session);
+
+        // Uploads stopped by an expired session carry on
+        if (message.session) {
+          await Promise.all(
+            Array.from(uploads.values())
+              .filter(
+                (upload) =>
+                  upload.status === "error" && upload.errorCategory === "auth"
+              )
+              .map((upload) => requeue(upload.id))
+          );
+          scheduler.pump();
+        }
+        break;
+      }
+
+      case "replay":
+        await replayOfflineUploads();
+        break;
+
+      case "list":
+        reply({ type: "uploads", uploads: Array.from(uploads.values()) });
+        break;
+    }
+  }
+
+  // An unfinished upload of the same content to the same place, by checksum
+  function findDuplicate(upload: UploadRecord) {
+    if (!upload.checksum) return undefined;
+    return Array.from(uploads.values()).find(
+      (other) =>
+        other.id !== upload.id &&
+        other.checksum === upload.checksum &&
+        other.size === upload.size &&
+        other.relativePath === upload.relativePath &&
+        other.keyPrefix === upload.keyPrefix &&
+        ACTIVE_STATUSES.concat("paused").includes(other.status)
+    );
+  }
+
+  function requeue(id: string) {
+    return update(id, {
+      status: "queued",
+      interrupted: false,
+      attempt: undefined,
+      errorMessage: undefined,
+      errorCategory: undefined,
+    });
+  }
+
+  async function removeUpload(id: string) {
+    const upload = uploads.get(id);
+    uploads.delete(id);
+    scheduler.abort(id, "cancelled");
+    if (upload?.multipart) {
+      await abortMultipart(upload.apiUrl, upload.multipart);
+    }
+    await deleteUpload(id);
+    await broadcast({ type: "upload-removed", id });
+  }
+
+  // The uploads a message applies to: the one it names, or every one of the
+  // owner's it can apply to when it names none (pause all, resume all and so on)
+  function targets(message: { type: string; id?: string; owner?: string }) {
+    const accepts: Record<string, UploadStatus[]> = {
+      retry: ["pending", "error", "cancelled"],
+      resume: ["paused"],
+      pause: ["pending", "queued", "uploading", "retrying"],
+      cancel: ACTIVE_STATUSES.concat("paused"),
+    };
+    return Array.from(uploads.values()).filter(
+      (upload) =>
+        (message.id === undefined || upload.id === message.id) &&
+        (message.owner === undefined || upload.owner === message.owner) &&
+        accepts[message.type].includes(upload.status)
+    );
+  }
+
+  // Running uploads record their new state when their request aborts; the rest
+  // are updated right away
+  async function stopUpload(upload: UploadRecord, reason: AbortReason) {
+    if (scheduler.isRunning(upload.id)) {
+      scheduler.abort(upload.id, reason);
+      return;
+    }
+
+    if (reason === "cancelled" && upload.multipart) {
+      await abortMultipart(upload.apiUrl, upload.multipart);
+    }
+    await update(upload.id, {
+      status: reason,
+      interrupted: false,
+      ...(reason === "cancelled" && {
+        progress: 0,
+        key: undefined,
+        multipart: undefined,
+      }),
+    });
+  }
+
+  // Upload everything queued while offline and report the outcome to every page.
+  // Rejecting makes the browser retry the sync later if we're still offline.
+  async function replayOfflineUploads() {
+    await restoreUploads();
+
+    const queued = Array.from(uploads.values()).filter(
+      (upload) => upload.status === "queued-offline"
+    );
+    if (queued.length === 0) return;
+
+    await Promise.all(
+      queued.map((upload) => update(upload.id, { status: "queued" }))
+    );
+    scheduler.pump();
+    await scheduler.whenIdle();
+
+    const results = queued.map((upload) => uploads.get(upload.id)?.status);
+    await broadcast({
+      type: "offline-replayed",
+      succeeded: results.filter((status) => status === "success").length,
+      failed: results.filter((status) => status === "error").length,
+    });
+
+    if (results.includes("queued-offline")) {
+      throw new Error("Still offline, uploads remain queued");
+    }
+  }
+
+  async function update(id: string, changes: Partial<UploadRecord>) {
+    const upload = uploads.get(id);
+    // The page may have removed the file while it was uploading
+    if (!upload) return;
+
+    const updated = { ...upload, ...changes };
+    uploads.set(id, updated);
+    await saveUpload(updated);
+    await broadcast({ type: "upload-updated", upload: updated });
+  }
+
+  async function queueOffline(id: string) {
+    await update(id, {
+      status: "queued-offline",
+      progress: 0,
+      interrupted: false,
+      errorMessage: undefined,
+    });
+    await scheduleOfflineReplay();
+  }
+
+  // Record a paused or cancelled upload once its requests have aborted. Paused
+  // uploads keep their multipart upload so they resume from the last part.
+  async function stopAborted(id: string, signal: AbortSignal) {
+    const reason = signal.reason as AbortReason;
+    const upload = uploads.get(id);
+
+    if (reason === "cancelled" && upload?.multipart) {
+      await abortMultipart(upload.apiUrl, upload.multipart);
+    }
+    await update(id, {
+      status: reason,
+      nextAttemptAt: undefined,
+      ...(reason === "cancelled" && {
+        progress: 0,
+        key: undefined,
+        multipart: undefined,
+      }),
+    });
+  }
+
+  // Presign and upload a file in one go, returning its object key and whether
+  // storage already had the same content
+  async function putFile(
+    upload: UploadRecord,
+    signal: AbortSignal,
+    onProgress: (progress: number) => void
+  ) {
+    // Step 1: Get presigned URL. Every attempt asks for a fresh one, which also
+    // covers retrying after a presigned URL has expired.
+    const response = await fetch(`${upload.apiUrl}/get-upload-url`, {
+      method: "POST",
+      headers: await apiHeaders(),
+      body: JSON.stringify({
+        filename: upload.name,
+        filetype: upload.type,
+        size: upload.size,
+        checksum: upload.checksum,
+        metadata: upload.metadata,
+        relativePath: upload.relativePath,
+        keyPrefix: upload.keyPrefix,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, "Failed to get upload URL");
+    }
+
+    const presignedPost:
+      | { url: string; fields: Record<string, string>; key: string }
+      | { alreadyUploaded: true; key: string } = await response.json();
+
+    // Storage already holds a file with the same content, so skip sending it
+    if ("alreadyUploaded" in presignedPost) {
+      return { key: presignedPost.key, alreadyUploaded: true };
+    }
+
+    // Step 2: Upload to S3 through the presigned POST form. The policy fields
+    // have to come first and the file last.
+    const form = new FormData();
+    Object.entries(presignedPost.fields).forEach(([name, value]) =>
+      form.append(name, value)
+    );
+    form.append("file", upload.file);
+
+    const postResponse = await postForm(presignedPost.url, form, {
+      signal,
+      onProgress,
+    });
+
+    if (!postResponse.ok) {
+      throw await errorFromResponse(postResponse, "Upload to storage failed");
+    }
+
+    return { key: presignedPost.key, alreadyUploaded: false };
+  }
+
+  // Step 3: Have the backend check the stored object and record the upload
+  async function confirmUpload(upload: UploadRecord, signal: AbortSignal) {
+    const response = await fetch(`${upload.apiUrl}/confirm-upload`, {
+      method: "POST",
+      headers: await apiHeaders(),
+      body: JSON.stringify({ key: upload.key }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, "Upload verification failed");
+    }
+  }
+
+  // One attempt at getting a file stored and confirmed. Large files go through
+  // multipart uploads. A file only counts as uploaded once the backend confirms it.
+  async function transferFile(id: string, signal: AbortSignal) {
+    let upload = uploads.get(id)!;
+
+    // An earlier attempt may have stored the object without confirming it
+    if (!upload.key) {
+      const { key, alreadyUploaded = false } =
+        upload.size > MULTIPART_THRESHOLD
+          ? await uploadMultipart(upload, signal, {
+              onCreated: (multipart) => update(id, { multipart }),
+              onProgress: (progress) => update(id, { progress }),
+            })
+          : await putFile(upload, signal, (progress) => {
+              // Progress events don't wait, so neither does saving them
+              update(id, { progress }).catch((error) =>
+                console.warn(`Error saving progress of ${upload.name}:`, error)
+              );
+            });
+
+      await update(id, {
+        key,
+        alreadyUploaded,
+        progress: 100,
+        multipart: undefined,
+      });
+      upload = uploads.get(id)!;
+    }
+
+    try {
+      await confirmUpload(upload, signal);
+      await update(id, { status: "success", progress: 100 });
+    } catch (error) {
+      // The object is missing, or didn't match and was deleted: upload it again
+      if (error instanceof UploadError && [409, 422].includes(error.status!)) {
+        await update(id, { key: undefined });
+      }
+      throw error;
+    }
+  }
+
+  async function uploadFile(id: string, signal: AbortSignal) {
+    const upload = uploads.get(id);
+    if (!upload) return;
+
+    for (let attempt = 1; ; attempt++) {
+      if (!navigator.onLine) {
+        await queueOffline(id);
+        return;
+      }
+
+      let delay: number;
+      try {
+        await update(id, {
+          status: "uploading",
+          // Stored but unconfirmed uploads only have the verification left
+          progress: uploads.get(id)?.key ? 100 : 0,
+          attempt,
+          interrupted: false,
+          errorMessage: undefined,
+          errorCategory: undefined,
+          nextAttemptAt: undefined,
+        });
+        await transferFile(id, signal);
+        return;
+      } catch (error) {
+        if (signal.aborted) {
+          await stopAborted(id, signal);
+          return;
+        }
+
+        // Losing the connection mid-upload queues the file instead of failing it
+        if (!navigator.onLine) {
+          await queueOffline(id);
+          return;
+        }
+
+        const uploadError = toUploadError(error);
+        if (!uploadError.retryable || attempt >= MAX_ATTEMPTS) {
+          console.error(`Error uploading ${upload.name}:`, error);
+          await update(id, {
+            status: "error",
+            progress: 0,
+            errorMessage: uploadError.message,
+            errorCategory: uploadError.category,
+          });
+          return;
+        }
+
+        // A rate limit says how long to wait; otherwise back off
+        delay = uploadError.retryAfter ?? backoffDelay(attempt);
+        await update(id, {
+          status: "retrying",
+          errorMessage: uploadError.message,
+          errorCategory: uploadError.category,
+          nextAttemptAt: Date.now() + delay,
+        });
+      }
+
+      // The wait holds the upload's slot and ends early on pause or cancel
+      if (!(await wait(delay, signal))) {
+        await stopAborted(id, signal);
+        return;
+      }
+    }
+  }
+
+  return {
+    handleMessage,
+    replayOfflineUploads,
+    whenIdle: () => scheduler.whenIdle(),
+  };
+}
@@ -0,0 +1,9 @@
+// Messages between the page and the hashing worker
+export type HashRequest =
+  { type: "hash"; id: string; file: File } | { type: "cancel"; id: string };
+
+export type HashResponse =
+  | { type: "progress"; id: string; progress: number }
+  | { type: "done"; id: string; checksum: string }
+  | { type: "cancelled"; id: string }
+  | { type: "error"; id: string; message: string };
@@ -0,0 +1,88 @@
+import { sha256 } from "@noble/hashes/sha2.js";
+import type { HashRequest, HashResponse } from "./hash-messages";
+
+declare let self: DedicatedWorkerGlobalScope;
+
+// Files are read a slice at a time, so memory use stays flat however large
+// the file is
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+const queue: { id: string; file: File }[] = [];
+let current: string | null = null;
+let isCancelled = false;
+
+function toBase64(bytes: Uint8Array) {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
+
+// The base64 SHA-256 digest, the form S3 uses for x-amz-checksum-sha256
+async function hashFile(id: string, file: File) {
+  const hash = sha256.create();
+  for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+    if (isCancelled) return null;
+
+    const chunk = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+    hash.update(new Uint8Array(chunk));
+    self.postMessage({
+      type: "progress",
+      id,
+      progress: Math.round(
+        (Math.min(offset + CHUNK_SIZE, file.size) / file.size) * 100
+      ),
+    } satisfies HashResponse);
+  }
+  return toBase64(hash.digest());
+}
+
+// One file at a time, in the order they were sent
+async function drain() {
+  if (current) return;
+
+  while (queue.length > 0) {
+    const { id, file } = queue.shift()!;
+    current = id;
+    isCancelled = false;
+    try {
+      const checksum = await hashFile(id, file);
+      self.postMessage(
+        (checksum === null
+          ? { type: "cancelled", id }
+          : { type: "done", id, checksum }) satisfies HashResponse
+      );
+    } catch (error) {
+      self.postMessage({
+        type: "error",
+        id,
+        message: error instanceof Error ? error.message : String(error),
+      } satisfies HashResponse);
+    }
+  }
+
+  current = null;
+}
+
+self.addEventListener("message", (event: MessageEvent<HashRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case "hash":
+      queue.push(message);
+      drain();
+      break;
+
+    case "cancel": {
+      const index = queue.findIndex((job) => job.id === message.id);
+      if (index >= 0) {
+        queue.splice(index, 1);
+        self.postMessage({
+          type: "cancelled",
+          id: message.id,
+        } satisfies HashResponse);
+      } else if (current === message.id) {
+        isCancelled = true;
+      }
+      break;
+    }
+  }
+});
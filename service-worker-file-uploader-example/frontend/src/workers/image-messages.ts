@@ -0,0 +1,21 @@
+// Messages between the page and the image processing worker
+
+export type OutputFormat = "image/webp" | "image/jpeg";
+
+export interface ProcessingOptions {
+  // Longest side of the output, in pixels; smaller images keep their size
+  maxDimension: number;
+  format: OutputFormat;
+  // Encoder quality, between 0 and 1
+  quality: number;
+}
+
+export interface ProcessRequest {
+  id: string;
+  file: File;
+  options: ProcessingOptions;
+}
+
+export type ProcessResponse =
+  | { type: "done"; id: string; blob: Blob; width: number; height: number }
+  | { type: "error"; id: string; message: string };
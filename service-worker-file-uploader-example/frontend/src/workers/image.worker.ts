@@ -0,0 +1,65 @@
+import type { ProcessRequest, ProcessResponse } from "./image-messages";
+
+declare let self: DedicatedWorkerGlobalScope;
+
+// Decoded images take a lot of memory, so they're processed one at a time
+let queue = Promise.resolve();
+
+// Decoding applies the EXIF orientation, and encoding a canvas writes none of
+// the original metadata, so GPS tags and the like are dropped
+async function processImage({ file, options }: ProcessRequest) {
+  const bitmap = await createImageBitmap(file, {
+    imageOrientation: "from-image",
+  });
+
+  try {
+    const scale = Math.min(
+      1,
+      options.maxDimension / Math.max(bitmap.width, bitmap.height)
+    );
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext("2d")!;
+    // JPEG has no alpha channel, so transparent areas would turn black
+    if (options.format === "image/jpeg") {
+      context.fillStyle = "#fff";
+      context.fillRect(0, 0, width, height);
+    }
+    context.imageSmoothingQuality = "high";
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const blob = await canvas.convertToBlob({
+      type: options.format,
+      quality: options.quality,
+    });
+    // Browsers that can't encode the format fall back to PNG
+    if (blob.type !== options.format) {
+      throw new Error(`This browser can't encode ${options.format}`);
+    }
+    return { blob, width, height };
+  } finally {
+    bitmap.close();
+  }
+}
+
+self.addEventListener("message", (event: MessageEvent<ProcessRequest>) => {
+  const request = event.data;
+  queue = queue.then(async () => {
+    try {
+      const result = await processImage(request);
+      self.postMessage({
+        type: "done",
+        id: request.id,
+        ...result,
+      } satisfies ProcessResponse);
+    } catch (error) {
+      self.postMessage({
+        type: "error",
+        id: request.id,
+        message: error instanceof Error ? error.message : String(error),
+      } satisfies ProcessResponse);
+    }
+  });
+});
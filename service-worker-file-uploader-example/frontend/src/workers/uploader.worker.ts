@@ -0,0 +1,19 @@
+import { createUploader } from "../serviceworker/uploader";
+import type { ClientMessage } from "../serviceworker/messages";
+
+declare let self: DedicatedWorkerGlobalScope;
+
+// Runs the upload queue in the leader tab when there's no service worker. The
+// tab relays what it posts here to the other tabs.
+const uploader = createUploader({
+  broadcast: async (message) => self.postMessage(message),
+  // There's no Background Sync here; the pages send "replay" once they're
+  // back online
+  scheduleOfflineReplay: async () => {},
+});
+
+self.addEventListener("message", (event: MessageEvent<ClientMessage>) => {
+  uploader
+    .handleMessage(event.data, (reply) => self.postMessage(reply))
+    .catch((error) => console.error("Error handling upload message:", error));
+});
@@ -1,14 +1,88 @@
+import fs from "fs"
 import path from "path"
+import { createHash } from "crypto"
 import tailwindcss from "@tailwindcss/vite"
 import react from "@vitejs/plugin-react"
-import { defineConfig } from "vite"
+import { defineConfig, type Plugin } from "vite"
+
+function listFiles(dir: string, base = dir): string[] {
+  if (!fs.existsSync(dir)) return []
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name)
+    return entry.isDirectory()
+      ? listFiles(file, base)
+      : [path.relative(base, file).split(path.sep).join("/")]
+  })
+}
+
+// Lists every file of the build, public files included, for the service
+// worker to precache. The list and a hash of the files' contents are
+// prepended to sw.js, so any change to the app makes a new worker version.
+function precacheManifest(): Plugin {
+  let publicDir = ""
+
+  return {
+    name: "precache-manifest",
+    apply: "build",
+    enforce: "post",
+    configResolved(config) {
+      publicDir = config.publicDir
+    },
+    generateBundle(_, bundle) {
+      const contents = new Map<string, string | Uint8Array>()
+      Object.values(bundle).forEach((output) => {
+        if (output.fileName === "sw.js" || output.fileName.endsWith(".map")) {
+          return
+        }
+        contents.set(
+          output.fileName,
+          output.type === "chunk" ? output.code : output.source
+        )
+      })
+      listFiles(publicDir).forEach((file) =>
+        contents.set(file, fs.readFileSync(path.join(publicDir, file)))
+      )
+
+      const files = [...contents.keys()].sort()
+      const hash = createHash("sha256")
+      files.forEach((file) => hash.update(file).update(contents.get(file)!))
+
+      const sw = bundle["sw.js"]
+      if (sw?.type !== "chunk") return
+      const manifest = {
+        version: hash.digest("hex").slice(0, 12),
+        urls: files.map((file) => `/${file}`),
+      }
+      sw.code = `self.__PRECACHE_MANIFEST = ${JSON.stringify(manifest)};\n${sw.code}`
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), precacheManifest()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  server: {
+    // The dev worker lives under /src/serviceworker/ but needs to control the whole app
+    headers: {
+      "Service-Worker-Allowed": "/",
+    },
+  },
+  build: {
+    rollupOptions: {
+      input: {
+        main: path.resolve(__dirname, "index.html"),
+        sw: path.resolve(__dirname, "src/serviceworker/sw.ts"),
+      },
+      output: {
+        // Keep the worker at a stable root URL so its scope covers the app
+        entryFileNames: (chunk) =>
+          chunk.name === "sw" ? "sw.js" : "assets/[name]-[hash].js",
+      },
+    },
+  },
 })